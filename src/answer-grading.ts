@@ -0,0 +1,501 @@
+/**
+ * Grading of RAG answers (grade)
+ *
+ * Scores a RAG system's answers to the generated questions against the
+ * questions' reference answers, the way each answer_type allows: numeric
+ * answers must give a number within tolerance, when answers a date that
+ * overlaps the claim's interval, who/where/list answers a name or alias
+ * of the claim's entities. why/how/what answers, and any question without
+ * short variants, go to an LLM judge with the reference text. Results are
+ * aggregated per question style, per target claim type and, for hint
+ * ladder variants, per hint level.
+ *
+ * Answers file format (JSON lines):
+ *
+ * {"question_id": "t1", "doc_id": "1975TAIPEI06471", "answer": "...", "retrieved_doc_ids": ["1975TAIPEI06471"]}
+ *
+ * doc_id is only needed when the question_id occurs in more than one cable.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLLMProvider } from './llm-provider.js';
+import { readAllCableOutputs } from './output-files.js';
+import { runPool } from './concurrency.js';
+import { CostLedger } from './cost-ledger.js';
+import { findNumbers, describeVariant } from './reference-answers.js';
+import { allQuestions, describeHintLevel } from './hint-ladder.js';
+import { ANSWER_JUDGE_SCHEMA } from './schemas.js';
+import { generateStructured } from './structured-output.js';
+import { findTimeExpressions, parseTimeExpression } from './temporal.js';
+import { escapeRegExp } from './text-similarity.js';
+import type {
+  AnswerJudgeResult,
+  AnswerType,
+  AnswerVariant,
+  ClaimType,
+  ExtractionOutput,
+  LLMResponse,
+  Question,
+  QuestionStyle,
+  RAGAnswer,
+  TimeInterval,
+} from './types.js';
+
+export type GradeMethod = 'numeric' | 'date' | 'alias' | 'llm';
+
+export const GRADE_FILENAME = 'grade.json';
+export const GRADE_REPORT_FILENAME = 'grade.md';
+
+// Share of a list question's entities an answer must name
+const LIST_MATCH = 0.5;
+
+const VERDICT_SCORES: Record<AnswerJudgeResult['grades'][number]['verdict'], number> = {
+  correct: 1,
+  partial: 0.5,
+  incorrect: 0,
+};
+
+const STYLE_ORDER: QuestionStyle[] = ['targeted', 'contextual', 'thematic', 'multi_hop'];
+const CLAIM_TYPE_ORDER: ClaimType[] = ['event', 'assessment', 'plan', 'relationship', 'logistics', 'attribution', 'other'];
+
+const JUDGE_PROMPT = `You grade the answers of a retrieval-augmented QA system against reference answers drawn from a diplomatic cable.
+
+For each question, compare the system's answer with the reference answer:
+- correct: it conveys the reference's key facts (actors, actions, reasons, methods), even if worded differently or with extra detail
+- partial: it gets some of the key facts but misses others
+- incorrect: it misses the key facts, contradicts the reference, or declines to answer
+
+Judge only against the reference answer, not your own knowledge of the period.`;
+
+export interface AnswerGrade {
+  doc_id: string;
+  question_id: string;
+  question_style: QuestionStyle;
+  answer_type: AnswerType;
+  claim_types: ClaimType[];   // Types of the question's target claims
+  method: GradeMethod;
+  score: number;              // 0-1; list answers and partial verdicts get part credit
+  correct: boolean;
+  reason: string;
+  retrieved: boolean | null;  // The question's cable was among retrieved_doc_ids (null when not given)
+  hint_level: number | null;  // For hint ladder variants
+}
+
+export interface GradeScores {
+  answers: number;
+  correct: number;
+  accuracy: number;
+  mean_score: number;
+  retrieval_recall: number | null;  // Share of answers whose cable was retrieved
+}
+
+export interface GradeResult {
+  answers: number;
+  unmatched: Array<{ question_id: string; doc_id?: string; reason: string }>;
+  overall: GradeScores;
+  by_style: Partial<Record<QuestionStyle, GradeScores>>;
+  by_claim_type: Partial<Record<ClaimType, GradeScores>>;
+  by_hint_level: Record<string, GradeScores>;  // Keyed by level, "0" for no hints
+  grades: AnswerGrade[];
+}
+
+/**
+ * Read an answers file, one JSON object per line
+ */
+export function loadRAGAnswers(filePath: string): RAGAnswer[] {
+  const answers: RAGAnswer[] = [];
+  fs.readFileSync(filePath, 'utf-8').split('\n').forEach((line, idx) => {
+    if (!line.trim()) return;
+    const parsed = JSON.parse(line) as RAGAnswer;
+    if (typeof parsed.question_id !== 'string' || typeof parsed.answer !== 'string') {
+      throw new Error(`${filePath}:${idx + 1}: expected {"question_id": ..., "answer": ..., "retrieved_doc_ids": [...]}`);
+    }
+    answers.push(parsed);
+  });
+  return answers;
+}
+
+export interface GradeOptions {
+  outputDir: string;
+  answersPath: string;
+  concurrency?: number;
+}
+
+/**
+ * Grade the answers against the questions saved in the output directory,
+ * writing grade.json and grade.md to it
+ */
+export async function runGrade(options: GradeOptions): Promise<GradeResult> {
+  const { outputDir, answersPath, concurrency = 1 } = options;
+  const answers = loadRAGAnswers(answersPath);
+  const outputs = readAllCableOutputs(outputDir);
+
+  const index = new Map<string, ExtractionOutput[]>();
+  for (const output of outputs) {
+    for (const q of allQuestions(output)) {
+      if (!index.has(q.question_id)) index.set(q.question_id, []);
+      index.get(q.question_id)!.push(output);
+    }
+  }
+
+  // Group the answers by cable, setting aside those that match no single question
+  const byCable = new Map<string, { output: ExtractionOutput; answers: RAGAnswer[] }>();
+  const unmatched: GradeResult['unmatched'] = [];
+  for (const answer of answers) {
+    const candidates = (index.get(answer.question_id) || []).filter((o) => !answer.doc_id || o.doc_id === answer.doc_id);
+    if (candidates.length !== 1) {
+      unmatched.push({
+        question_id: answer.question_id,
+        ...(answer.doc_id ? { doc_id: answer.doc_id } : {}),
+        reason: candidates.length === 0 ? 'No such question' : `In ${candidates.length} cables; add doc_id`,
+      });
+      continue;
+    }
+    const output = candidates[0];
+    if (!byCable.has(output.doc_id)) byCable.set(output.doc_id, { output, answers: [] });
+    byCable.get(output.doc_id)!.answers.push(answer);
+  }
+
+  console.log(`\n🎯 grade: ${answers.length} answers to questions in ${byCable.size} cables from ${outputDir}`);
+  if (unmatched.length > 0) {
+    console.log(`   ⚠️  ${unmatched.length} answers match no single question`);
+  }
+
+  const ledger = new CostLedger();
+  const groups = [...byCable.values()];
+  const graded: AnswerGrade[][] = new Array(groups.length);
+  await runPool(groups, concurrency, async (group, i) => {
+    const result = await gradeCableAnswers(group.output, group.answers);
+    if (result.response) ledger.record('grading', result.response);
+    graded[i] = result.grades;
+    const correct = result.grades.filter((g) => g.correct).length;
+    console.log(`   ✓ ${group.output.doc_id}: ${correct} of ${result.grades.length} answers correct`);
+  });
+
+  const result = aggregateGrades(graded.flat(), unmatched);
+  fs.writeFileSync(path.join(outputDir, GRADE_FILENAME), JSON.stringify(result, null, 2));
+  fs.writeFileSync(path.join(outputDir, GRADE_REPORT_FILENAME), formatGradeReport(result));
+
+  if (ledger.totalTokens > 0) {
+    console.log(`   ✓ Grading tokens: ${ledger.totalTokens} | Cost: $${ledger.totalCost.toFixed(4)}`);
+  }
+  return result;
+}
+
+// =============================================================================
+// Grading
+// =============================================================================
+
+type PartialGrade = Pick<AnswerGrade, 'method' | 'score' | 'correct' | 'reason'>;
+
+/**
+ * Grade one cable's answers: by rule where the answer type has short
+ * variants, with one judge call for the rest
+ */
+export async function gradeCableAnswers(
+  output: ExtractionOutput,
+  answers: RAGAnswer[]
+): Promise<{ grades: AnswerGrade[]; response?: LLMResponse }> {
+  const questions = new Map(allQuestions(output).map((q) => [q.question_id, q]));
+  const claimTypes = new Map(output.claims.map((c) => [c.claim_id, c.claim_type]));
+  const anchor = parseTimeExpression(output.doc_date || output.cable?.date || '');
+
+  const ruled = new Map<RAGAnswer, PartialGrade>();
+  const toJudge: Array<{ question: Question; answer: RAGAnswer }> = [];
+  for (const answer of answers) {
+    const question = questions.get(answer.question_id)!;
+    const method = gradeMethod(question);
+    if (!answer.answer.trim()) {
+      ruled.set(answer, { method, score: 0, correct: false, reason: 'Empty answer' });
+    } else if (method === 'llm') {
+      toJudge.push({ question, answer });
+    } else {
+      ruled.set(answer, gradeByRule(question, answer.answer, anchor));
+    }
+  }
+
+  let judged = new Map<string, PartialGrade>();
+  let response: LLMResponse | undefined;
+  if (toJudge.length > 0) {
+    const result = await judgeAnswers(output.doc_id, toJudge);
+    judged = result.grades;
+    response = result.response;
+  }
+
+  const grades = answers.map((answer): AnswerGrade => {
+    const question = questions.get(answer.question_id)!;
+    const grade = ruled.get(answer) ||
+      judged.get(answer.question_id) || { method: 'llm' as const, score: 0, correct: false, reason: 'No verdict from the judge' };
+    const targets = question.targets_claim_ids || [question.targets_claim_id];
+    return {
+      doc_id: output.doc_id,
+      question_id: question.question_id,
+      question_style: question.question_style || 'targeted',
+      answer_type: question.answer_type,
+      claim_types: [...new Set(targets.map((id) => claimTypes.get(id)).filter((t): t is ClaimType => t !== undefined))],
+      ...grade,
+      retrieved: answer.retrieved_doc_ids ? answer.retrieved_doc_ids.includes(output.doc_id) : null,
+      hint_level: question.hint_level ?? null,
+    };
+  });
+
+  return { grades, response };
+}
+
+/**
+ * How a question's answers are graded: by its short variants when the
+ * answer type has them, otherwise by the judge
+ */
+function gradeMethod(question: Question): GradeMethod {
+  const kinds = new Set((question.reference_answer?.variants || []).map((v) => v.kind));
+  switch (question.answer_type) {
+    case 'numeric':
+      return kinds.has('numeric') ? 'numeric' : 'llm';
+    case 'when':
+      return kinds.has('date') ? 'date' : 'llm';
+    case 'who':
+    case 'where':
+    case 'list':
+      return kinds.has('alias') ? 'alias' : 'llm';
+    default:
+      return 'llm';
+  }
+}
+
+function gradeByRule(question: Question, answer: string, anchor: TimeInterval | null): PartialGrade {
+  const variants = question.reference_answer!.variants;
+  switch (gradeMethod(question)) {
+    case 'numeric':
+      return gradeNumeric(answer, variants);
+    case 'date':
+      return gradeDate(answer, variants, anchor);
+    default:
+      return gradeAliases(answer, variants, question.answer_type === 'list');
+  }
+}
+
+/**
+ * Correct when any number in the answer falls within a numeric variant's range
+ */
+export function gradeNumeric(answer: string, variants: AnswerVariant[]): PartialGrade {
+  const ranges = variants.filter((v) => v.kind === 'numeric');
+  const numbers = findNumbers(answer);
+  for (const n of numbers) {
+    const range = ranges.find((v) => n.value >= v.min && n.value <= v.max);
+    if (range) {
+      return { method: 'numeric', score: 1, correct: true, reason: `${n.expression} is within ${describeVariant(range)}` };
+    }
+  }
+  const expected = ranges.map(describeVariant).join(', ');
+  return {
+    method: 'numeric',
+    score: 0,
+    correct: false,
+    reason: numbers.length > 0 ? `${numbers.map((n) => n.expression).join(', ')} not within ${expected}` : `No number (expected ${expected})`,
+  };
+}
+
+/**
+ * Correct when any date in the answer overlaps a date variant's interval.
+ * Bare years count as dates here; expressions without a year are
+ * resolved against the cable date.
+ */
+export function gradeDate(answer: string, variants: AnswerVariant[], anchor: TimeInterval | null = null): PartialGrade {
+  const ranges = variants.filter((v) => v.kind === 'date');
+  const expressions = findTimeExpressions(answer);
+  let rest = answer;
+  for (const expression of expressions) rest = rest.replace(expression, ' ');
+  expressions.push(...(rest.match(/\b(?:1[89]|20)\d{2}\b/g) || []));
+
+  const dates = expressions
+    .map((e) => parseTimeExpression(e, anchor))
+    .filter((i): i is TimeInterval => i !== null && !!i.start && !i.issues?.length);
+  for (const date of dates) {
+    const range = ranges.find((v) => date.start <= v.end && v.start <= date.end);
+    if (range) {
+      return { method: 'date', score: 1, correct: true, reason: `"${date.expression}" overlaps ${describeVariant(range)}` };
+    }
+  }
+  const expected = ranges.map(describeVariant).join(', ');
+  return {
+    method: 'date',
+    score: 0,
+    correct: false,
+    reason: dates.length > 0 ? `${dates.map((d) => `"${d.expression}"`).join(', ')} outside ${expected}` : `No date (expected ${expected})`,
+  };
+}
+
+/**
+ * Match entity names and aliases as whole words. who/where answers need
+ * one of the entities; list answers get credit for the share they name
+ * and are correct at LIST_MATCH or above.
+ */
+export function gradeAliases(answer: string, variants: AnswerVariant[], list = false): PartialGrade {
+  const entities = variants.filter((v) => v.kind === 'alias');
+  const lower = answer.toLowerCase();
+  const named = entities.filter((v) =>
+    [v.entity, ...v.aliases].some((a) => a.length >= 2 && new RegExp(`\\b${escapeRegExp(a.toLowerCase())}\\b`).test(lower))
+  );
+
+  const score = list ? (entities.length > 0 ? named.length / entities.length : 0) : named.length > 0 ? 1 : 0;
+  const missing = entities.filter((v) => !named.includes(v)).map((v) => v.entity);
+  let reason = named.length > 0 ? `Names ${named.map((v) => v.entity).join(', ')}` : `Names none of ${missing.join(', ')}`;
+  if (list && named.length > 0 && missing.length > 0) reason += `; missing ${missing.join(', ')}`;
+
+  return { method: 'alias', score: round(score), correct: list ? score >= LIST_MATCH : score === 1, reason };
+}
+
+/**
+ * Ask the LLM whether each answer conveys its reference answer
+ */
+async function judgeAnswers(
+  docId: string,
+  items: Array<{ question: Question; answer: RAGAnswer }>
+): Promise<{ grades: Map<string, PartialGrade>; response: LLMResponse }> {
+  const entries = items.map(
+    ({ question, answer }) => `
+---
+Question ID: ${question.question_id}
+Answer type: ${question.answer_type}
+Question: "${question.question_text}"
+Reference answer: "${question.reference_answer?.text || ''}"
+System answer: "${answer.answer}"
+---`
+  );
+
+  const userPrompt = `Grade these ${items.length} answers.
+
+CABLE ID: ${docId}
+${entries.join('\n')}
+
+Return JSON ONLY in this format:
+{
+  "grades": [
+    { "question_id": "t1", "verdict": "correct", "reason": "..." }
+  ]
+}`;
+
+  const { data, response } = await generateStructured<AnswerJudgeResult>(
+    getLLMProvider('grading'),
+    JUDGE_PROMPT,
+    userPrompt,
+    ANSWER_JUDGE_SCHEMA,
+    { label: 'answer grading' }
+  );
+
+  // Keep verdicts for the questions asked, first answer wins
+  const asked = new Set(items.map((i) => i.question.question_id));
+  const grades = new Map<string, PartialGrade>();
+  for (const g of data.grades) {
+    if (!asked.has(g.question_id) || grades.has(g.question_id)) continue;
+    const score = VERDICT_SCORES[g.verdict];
+    grades.set(g.question_id, { method: 'llm', score, correct: score === 1, reason: g.reason });
+  }
+  return { grades, response };
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Scores overall, per question style, per claim type and per hint level.
+ * A question targeting claims of several types counts towards each of
+ * them. Hint ladder variants are scored per hint level, not per style.
+ */
+export function aggregateGrades(grades: AnswerGrade[], unmatched: GradeResult['unmatched'] = []): GradeResult {
+  const byStyle: Partial<Record<QuestionStyle, GradeScores>> = {};
+  for (const style of STYLE_ORDER) {
+    const subset = grades.filter((g) => g.question_style === style && g.hint_level === null);
+    if (subset.length > 0) byStyle[style] = scoreGrades(subset);
+  }
+
+  const byClaimType: Partial<Record<ClaimType, GradeScores>> = {};
+  for (const type of CLAIM_TYPE_ORDER) {
+    const subset = grades.filter((g) => g.claim_types.includes(type));
+    if (subset.length > 0) byClaimType[type] = scoreGrades(subset);
+  }
+
+  const byHintLevel: Record<string, GradeScores> = {};
+  const levels = [...new Set(grades.map((g) => g.hint_level).filter((l): l is number => l !== null))];
+  for (const level of levels.sort((a, b) => a - b)) {
+    byHintLevel[level] = scoreGrades(grades.filter((g) => g.hint_level === level));
+  }
+
+  return {
+    answers: grades.length,
+    unmatched,
+    overall: scoreGrades(grades),
+    by_style: byStyle,
+    by_claim_type: byClaimType,
+    by_hint_level: byHintLevel,
+    grades,
+  };
+}
+
+function scoreGrades(grades: AnswerGrade[]): GradeScores {
+  const correct = grades.filter((g) => g.correct).length;
+  const withRetrieval = grades.filter((g) => g.retrieved !== null);
+  return {
+    answers: grades.length,
+    correct,
+    accuracy: grades.length > 0 ? round(correct / grades.length) : 0,
+    mean_score: grades.length > 0 ? round(grades.reduce((sum, g) => sum + g.score, 0) / grades.length) : 0,
+    retrieval_recall: withRetrieval.length > 0 ? round(withRetrieval.filter((g) => g.retrieved).length / withRetrieval.length) : null,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+export function formatGradeReport(result: GradeResult): string {
+  const lines: string[] = [];
+  const pct = (v: number | null) => (v === null ? 'n/a' : `${(v * 100).toFixed(1)}%`);
+
+  lines.push('# RAG Answer Grades');
+  lines.push('');
+  lines.push(`**Generated:** ${new Date().toISOString()}`);
+  lines.push(`**Answers graded:** ${result.answers}`);
+  if (result.unmatched.length > 0) {
+    const list = result.unmatched.map((u) => `${u.doc_id ? `${u.doc_id}/` : ''}${u.question_id} (${u.reason})`);
+    lines.push(`**Not graded:** ${list.join(', ')}`);
+  }
+  lines.push('');
+
+  const table = (heading: string, label: string, rows: Array<[string, GradeScores]>) => {
+    lines.push(`## ${heading}`);
+    lines.push('');
+    lines.push(`| ${label} | Answers | Correct | Accuracy | Mean Score | Retrieval Recall |`);
+    lines.push(`|${'-'.repeat(label.length + 2)}|---------|---------|----------|------------|------------------|`);
+    for (const [name, s] of rows) {
+      lines.push(`| ${name} | ${s.answers} | ${s.correct} | ${pct(s.accuracy)} | ${pct(s.mean_score)} | ${pct(s.retrieval_recall)} |`);
+    }
+    lines.push('');
+  };
+
+  table('By Question Style', 'Style', [...Object.entries(result.by_style), ['**all**', result.overall]]);
+  table('By Claim Type', 'Claim Type', Object.entries(result.by_claim_type));
+  const levels = Object.entries(result.by_hint_level);
+  if (levels.length > 0) {
+    table('By Hint Level', 'Hint Level', levels.map(([level, s]) => [describeHintLevel(Number(level)), s]));
+  }
+
+  lines.push('## Answers');
+  lines.push('');
+  lines.push('| Doc ID | Question | Style | Answer Type | Method | Score | Reason |');
+  lines.push('|--------|----------|-------|-------------|--------|-------|--------|');
+  for (const g of result.grades) {
+    const mark = g.correct ? '✓' : '✗';
+    lines.push(
+      `| ${g.doc_id} | ${g.question_id} | ${g.question_style} | ${g.answer_type} | ${g.method} | ${mark} ${g.score} | ${g.reason.replace(/\|/g, '\\|')} |`
+    );
+  }
+
+  return lines.join('\n');
+}
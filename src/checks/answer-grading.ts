@@ -0,0 +1,78 @@
+/**
+ * Checks for rule-based answer grading (answer-grading.ts), on reference
+ * answers built from fixed claims
+ */
+
+import { assert, check, section } from './harness.js';
+import { aggregateGrades, gradeAliases, gradeDate, gradeNumeric, type AnswerGrade } from '../answer-grading.js';
+import { buildReferenceAnswer } from '../reference-answers.js';
+import { parseTimeExpression } from '../temporal.js';
+import type { Claim } from '../types.js';
+
+section('🎯 answer grading');
+
+const claim: Claim = {
+  claim_id: 'c1',
+  claim_text: 'Minister Kao said about 60,000 troops would be withdrawn from Quemoy in March 1976.',
+  claim_type: 'plan',
+  entities: ['Minister Kao', 'Quemoy'],
+  time_interval: parseTimeExpression('March 1976')!,
+  importance: 4,
+};
+const anchor = parseTimeExpression('1976-02-15');
+
+check('numeric answers within 10% are correct', () => {
+  const { variants } = buildReferenceAnswer('numeric', [claim]);
+  assert.equal(gradeNumeric('Roughly 63,000 soldiers.', variants).correct, true);
+  assert.equal(gradeNumeric('About 70,000.', variants).correct, false);
+  assert.equal(gradeNumeric('Several divisions.', variants).correct, false);
+});
+
+check('the claim year is not taken as a numeric answer', () => {
+  const { variants } = buildReferenceAnswer('numeric', [claim]);
+  assert.deepEqual(variants.map((v) => v.kind === 'numeric' && v.value), [60000]);
+});
+
+check('date answers overlapping the claim interval are correct', () => {
+  const { variants } = buildReferenceAnswer('when', [claim]);
+  assert.equal(gradeDate('On 12 March 1976.', variants, anchor).correct, true);
+  assert.equal(gradeDate('In 1976.', variants, anchor).correct, true);
+  assert.equal(gradeDate('In March.', variants, anchor).correct, true);
+  assert.equal(gradeDate('In June 1976.', variants, anchor).correct, false);
+  assert.equal(gradeDate('Some time later.', variants, anchor).correct, false);
+});
+
+check('alias answers match whole words only', () => {
+  const { variants } = buildReferenceAnswer('who', [claim]);
+  assert.equal(gradeAliases('It was Minister Kao.', variants).correct, true);
+  assert.equal(gradeAliases('An official in Kaohsiung.', variants).correct, false);
+});
+
+check('list answers get credit for the share of entities named', () => {
+  const { variants } = buildReferenceAnswer('list', [claim]);
+  const partial = gradeAliases('Quemoy.', variants, true);
+  assert.equal(partial.score, 0.5);
+  assert.equal(partial.correct, true);
+  assert.equal(gradeAliases('Matsu.', variants, true).score, 0);
+});
+
+check('hint ladder variants are scored per level, not per style', () => {
+  const grade = (question_id: string, correct: boolean, hint_level: number | null): AnswerGrade => ({
+    doc_id: 'd1',
+    question_id,
+    question_style: 'targeted',
+    answer_type: 'what',
+    claim_types: ['plan'],
+    method: 'llm',
+    score: correct ? 1 : 0,
+    correct,
+    reason: '',
+    retrieved: null,
+    hint_level,
+  });
+  const result = aggregateGrades([grade('t1', true, null), grade('l1.0', false, 0), grade('l1.1', true, 1)]);
+  assert.equal(result.by_style.targeted?.answers, 1);
+  assert.deepEqual(Object.keys(result.by_hint_level), ['0', '1']);
+  assert.equal(result.overall.answers, 3);
+  assert.equal(result.overall.accuracy, 0.667);
+});
@@ -0,0 +1,50 @@
+/**
+ * Checks for claim evaluation scoring (claim-eval.ts)
+ */
+
+import { assert, check, section } from './harness.js';
+import { matchClaimsLexical, scoreClaimAlignment, spearman } from '../claim-eval.js';
+import type { Claim, GoldClaim } from '../types.js';
+
+section('📏 claim evaluation');
+
+const gold: Required<GoldClaim>[] = [
+  { claim_id: 'g1', claim_text: 'The border negotiations stalled in March 1976.', claim_type: 'event', importance: 5 },
+  { claim_id: 'g2', claim_text: 'The embassy expects the elections to delay any settlement.', claim_type: 'assessment', importance: 3 },
+  { claim_id: 'g3', claim_text: 'Troops will be withdrawn from the islands by June.', claim_type: 'plan', importance: 4 },
+];
+
+const predicted: Claim[] = [
+  { claim_id: 'c1', claim_text: 'Border negotiations stalled in March 1976.', claim_type: 'event', entities: [], importance: 5 },
+  { claim_id: 'c2', claim_text: 'The embassy expects the elections to delay a settlement.', claim_type: 'event', entities: [], importance: 2 },
+  { claim_id: 'c3', claim_text: 'A new trade office opened in the capital.', claim_type: 'other', entities: [], importance: 1 },
+];
+
+check('spearman handles ties and degenerate input', () => {
+  assert.equal(spearman([1, 2, 3], [1, 2, 3]), 1);
+  assert.equal(spearman([1, 2, 3], [3, 2, 1]), -1);
+  assert.equal(spearman([1, 2], [1, 2]), null);
+  assert.equal(spearman([2, 2, 2], [1, 2, 3]), null);
+  assert.ok(Math.abs(spearman([1, 2, 2, 3], [1, 2, 3, 4])! - 0.949) < 0.001);
+});
+
+check('lexical matching pairs similar claims one to one', () => {
+  const matches = matchClaimsLexical(gold, predicted);
+  assert.deepEqual(
+    matches.map((m) => `${m.gold_id}=${m.claim_id}`).sort(),
+    ['g1=c1', 'g2=c2']
+  );
+});
+
+check('alignment scores overall and per type', () => {
+  const result = scoreClaimAlignment(
+    [{ doc_id: 'd1', gold, predicted, matches: matchClaimsLexical(gold, predicted) }],
+    'lexical'
+  );
+  assert.deepEqual([result.overall.precision, result.overall.recall], [0.667, 0.667]);
+  // c2 matched g2 but with the wrong type
+  assert.equal(result.type_accuracy, 0.5);
+  assert.deepEqual([result.by_type.event?.precision, result.by_type.event?.recall], [0.5, 1]);
+  assert.equal(result.by_type.assessment?.recall, 0);
+  assert.equal(result.importance_correlation, null);
+});
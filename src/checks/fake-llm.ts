@@ -0,0 +1,162 @@
+/**
+ * Checks for the failure paths of an LLM call, driven offline by the fake
+ * provider's failure injection (fake-llm.ts): retries in gemini.ts, schema
+ * repair, truncation splits and the error handling of a whole run
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { assert, check, quietly, section } from './harness.js';
+import { configureFakeLLM, createFakeProvider, getFakeCalls, type FakeFixture } from '../fake-llm.js';
+import { configureProviders, type LLMProvider } from '../llm-provider.js';
+import { extractClaims } from '../extract-claims.js';
+import { TruncatedResponseError } from '../llm-errors.js';
+import { CLAIM_EXTRACTION_SCHEMA } from '../schemas.js';
+import { generateStructured } from '../structured-output.js';
+import type { ClaimExtractionResult } from '../types.js';
+
+section('🧪 fake LLM failure injection');
+
+const CLAIM_TEXT = 'The ambassador reported that the border negotiations stalled in March 1976.';
+const claimsResponse = {
+  claims: [
+    {
+      claim_id: 'c1',
+      claim_text: CLAIM_TEXT,
+      claim_type: 'event',
+      entities: ['ambassador'],
+      time_bounds: { start: '1976-03', end: null },
+      importance: 4,
+      source: 'ambassador',
+      modality: 'reported',
+      confidence_marker: null,
+      supporting_quotes: [CLAIM_TEXT],
+    },
+  ],
+};
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-llm-checks-'));
+process.on('exit', () => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+/**
+ * Serve the claims stage: the failures in order, then claimsResponse
+ */
+function useClaimsFixture(failures: FakeFixture['failures']): string {
+  const file = path.join(tmpDir, 'fixtures.json');
+  fs.writeFileSync(file, JSON.stringify({ fixtures: [{ stage: 'claims', failures, response: claimsResponse }] }));
+  configureFakeLLM(file);
+  return file;
+}
+
+function outcomes(): string[] {
+  return getFakeCalls().map((c) => c.outcome);
+}
+
+check('rate limits and server errors are retried', async () => {
+  useClaimsFixture(['rate_limit', 'server_error']);
+  const { data } = await quietly(() => createFakeProvider('claims').generateJSON<ClaimExtractionResult>('system', 'user'));
+  assert.equal(data.claims.length, 1);
+  assert.deepEqual(outcomes(), ['rate_limit', 'server_error', 'ok']);
+});
+
+check('malformed JSON is retried before the schema is checked', async () => {
+  useClaimsFixture(['malformed_json']);
+  const { data } = await quietly(() =>
+    generateStructured<ClaimExtractionResult>(createFakeProvider('claims'), 'system', 'user', CLAIM_EXTRACTION_SCHEMA)
+  );
+  assert.equal(data.claims[0].claim_text, CLAIM_TEXT);
+  assert.deepEqual(outcomes(), ['malformed_json', 'ok']);
+});
+
+check('a response failing the schema gets a repair prompt', async () => {
+  useClaimsFixture(['invalid_schema']);
+  const fake = createFakeProvider('claims');
+  const prompts: string[] = [];
+  const spy: LLMProvider = {
+    name: fake.name,
+    model: fake.model,
+    temperature: fake.temperature,
+    generateJSON: (systemPrompt, userPrompt, schema) => {
+      prompts.push(userPrompt);
+      return fake.generateJSON(systemPrompt, userPrompt, schema);
+    },
+  };
+  const { data } = await quietly(() =>
+    generateStructured<ClaimExtractionResult>(spy, 'system', 'user', CLAIM_EXTRACTION_SCHEMA)
+  );
+  assert.equal(data.claims.length, 1);
+  assert.deepEqual(outcomes(), ['invalid_schema', 'ok']);
+  assert.equal(prompts.length, 2);
+  assert.ok(prompts[1].includes('YOUR PREVIOUS RESPONSE'), 'second prompt is not a repair prompt');
+});
+
+check('a truncated response is not retried', async () => {
+  useClaimsFixture(['max_tokens']);
+  await assert.rejects(quietly(() => createFakeProvider('claims').generateJSON('system', 'user')), TruncatedResponseError);
+  assert.deepEqual(outcomes(), ['max_tokens']);
+});
+
+check('a truncated extraction is split in two and merged', async () => {
+  useClaimsFixture(['max_tokens']);
+  configureProviders({ claims: { provider: 'fake' } });
+  const body = Array.from({ length: 16 }, () => CLAIM_TEXT).join('\n\n');
+  const { claims, response } = await quietly(() =>
+    extractClaims({ doc_nbr: '1976TEST00000', subject: 'Test', date: '1976-03-20', body })
+  );
+  assert.deepEqual(outcomes(), ['max_tokens', 'ok', 'ok']);
+  // Both halves return the same claim, folded into one
+  assert.deepEqual(claims.map((c) => c.claim_id), ['c1']);
+  assert.ok(response.tokens > 0);
+});
+
+check('a timed-out request is retried, and the last timeout is thrown', async () => {
+  useClaimsFixture(['timeout']);
+  await quietly(() => createFakeProvider('claims').generateJSON('system', 'user'));
+  assert.deepEqual(outcomes(), ['timeout', 'ok']);
+
+  useClaimsFixture(['timeout', 'timeout', 'timeout', 'timeout']);
+  await assert.rejects(quietly(() => createFakeProvider('claims').generateJSON('system', 'user')), /fake timeout/);
+});
+
+// A full run in a child process, so main() handles the errors as it would
+// from the command line
+const INDEX = fileURLToPath(new URL('../index.ts', import.meta.url));
+
+function runPipeline(args: string[]): { status: number | null; output: string } {
+  const registry = path.join(tmpDir, 'entity-registry.json');
+  const result = spawnSync(process.execPath, [...process.execArgv, INDEX, '--entity-registry', registry, ...args], {
+    encoding: 'utf-8',
+    timeout: 60000,
+  });
+  return { status: result.status, output: result.stdout + result.stderr };
+}
+
+check('a cable whose calls keep failing is marked failed and the run goes on', () => {
+  const fixtures = useClaimsFixture(['timeout', 'timeout', 'timeout', 'timeout']);
+  const outputDir = path.join(tmpDir, 'failed-run');
+  const { status, output } = runPipeline(['--fake-llm', fixtures, '--text', CLAIM_TEXT, '--output', outputDir]);
+  assert.equal(status, 0, output);
+  assert.ok(output.includes('❌ Error processing'), output);
+
+  const manifest = JSON.parse(fs.readFileSync(path.join(outputDir, 'run-manifest.json'), 'utf-8'));
+  const [entry] = Object.values(manifest.entries) as Array<{ status: string; stage: string; error: string }>;
+  assert.deepEqual([entry.status, entry.stage], ['failed', 'claims']);
+  assert.match(entry.error, /fake timeout/);
+});
+
+check('a fatal error ends the run with a non-zero exit', () => {
+  const fixtures = useClaimsFixture([]);
+  const { status, output } = runPipeline([
+    '--fake-llm', fixtures,
+    '--text', CLAIM_TEXT,
+    '--output', path.join(tmpDir, 'fatal-run'),
+    '--cache', 'replay-only',
+    '--cache-dir', path.join(tmpDir, 'empty-cache'),
+  ]);
+  assert.equal(status, 1, output);
+  assert.ok(output.includes('Fatal error'), output);
+  assert.ok(output.includes('CacheMissError'), output);
+});
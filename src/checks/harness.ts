@@ -0,0 +1,51 @@
+/**
+ * A minimal harness for the checks: named checks, sync or async, run one
+ * after another in the order they are declared, and a failed assertion
+ * sets a non-zero exit code without stopping the rest
+ */
+
+export { default as assert } from 'node:assert/strict';
+
+let failures = 0;
+let queue: Promise<void> = Promise.resolve();
+
+export function check(name: string, fn: () => void | Promise<void>): void {
+  queue = queue.then(async () => {
+    try {
+      await fn();
+      console.log(`   ✓ ${name}`);
+    } catch (error) {
+      failures++;
+      process.exitCode = 1;
+      console.log(`   ✗ ${name}`);
+      console.log(`     ${(error instanceof Error ? error.message : String(error)).split('\n').join('\n     ')}`);
+    }
+  });
+}
+
+export function section(title: string): void {
+  queue = queue.then(() => console.log(`\n${title}`));
+}
+
+/**
+ * Run `fn` with console output muted, for checks whose code under test logs
+ * its progress
+ */
+export async function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  const { log, error } = console;
+  console.log = console.error = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+}
+
+/**
+ * Failed checks, once every declared check has run
+ */
+export async function failureCount(): Promise<number> {
+  await queue;
+  return failures;
+}
@@ -0,0 +1,17 @@
+/**
+ * Run every check: npx tsx src/checks/index.ts
+ *
+ * Fixed inputs for the pure scoring and parsing functions, and the LLM
+ * failure paths through the fake provider; no live LLM calls. Exits
+ * non-zero when any check fails.
+ */
+
+import './temporal.js';
+import './leakage.js';
+import './answer-grading.js';
+import './claim-eval.js';
+import './fake-llm.js';
+import { failureCount } from './harness.js';
+
+const failures = await failureCount();
+console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} checks failed`);
@@ -0,0 +1,63 @@
+/**
+ * Checks for the rule-based leakage scores (leakage-checker.ts)
+ */
+
+import { assert, check, section } from './harness.js';
+import { checkLeakage, checkQuestionLeakage } from '../leakage-checker.js';
+import { parseTimeExpression } from '../temporal.js';
+import type { Claim, Question, QuestionStyle } from '../types.js';
+
+section('🔍 leakage');
+
+const claim: Claim = {
+  claim_id: 'c1',
+  claim_text: 'The ambassador reported that the border negotiations stalled in March 1976.',
+  claim_type: 'event',
+  entities: ['ambassador'],
+  time_interval: parseTimeExpression('1976-03')!,
+  importance: 4,
+};
+const claimMap = new Map([[claim.claim_id, claim]]);
+
+function question(text: string, overrides: Partial<Question> = {}): Question {
+  return {
+    question_id: 'q1',
+    targets_claim_id: 'c1',
+    question_text: text,
+    question_style: 'targeted',
+    answer_type: 'what',
+    allowed_hints: [],
+    banned_terms: [],
+    leakage_score: 0,
+    ...overrides,
+  };
+}
+
+const leaky = 'What happened to the border negotiations in March 1976?';
+
+check('a generic question does not leak', () => {
+  assert.equal(checkLeakage(question('What happened to a set of bilateral talks?'), claim).score, 0);
+});
+
+check('an exact date inside the claim interval leaks', () => {
+  const { score, issues } = checkLeakage(question(leaky), claim);
+  assert.ok(score > 0.3, `score ${score}`);
+  assert.ok(issues.some((i) => i.startsWith('Exact date')), issues.join('; '));
+});
+
+check('an allowed time window is not an embedded answer', () => {
+  const text = 'What happened to a set of bilateral talks in early 1976?';
+  assert.equal(checkLeakage(question(text, { allowed_hints: ['time_window'], time_window: 'early 1976' }), claim).score, 0);
+  assert.ok(checkLeakage(question(text), claim).score > 0);
+});
+
+check('only targeted and multi-hop questions escape the style discount', () => {
+  const full = checkLeakage(question(leaky), claim).score;
+  const scoreFor = (style: QuestionStyle | undefined) =>
+    checkQuestionLeakage(question(leaky, { question_style: style as QuestionStyle }), claimMap).score;
+  assert.equal(scoreFor('targeted'), full);
+  assert.equal(scoreFor('multi_hop'), full);
+  assert.equal(scoreFor('contextual'), full * 0.6);
+  assert.equal(scoreFor('thematic'), full * 0.6);
+  assert.equal(scoreFor(undefined), full * 0.6);
+});
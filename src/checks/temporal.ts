@@ -0,0 +1,70 @@
+/**
+ * Checks for time expression normalization (temporal.ts)
+ */
+
+import { assert, check, section } from './harness.js';
+import { describeTimeWindow, findTimeExpressions, normalizeTimeBounds, parseTimeExpression } from '../temporal.js';
+import type { TimeGranularity } from '../types.js';
+
+section('🕒 temporal');
+
+const anchor = parseTimeExpression('1976-03-10')!;
+
+function expectInterval(expression: string, start: string, end: string, granularity: TimeGranularity): void {
+  const parsed = parseTimeExpression(expression, anchor);
+  assert.ok(parsed, `"${expression}" did not parse`);
+  assert.deepEqual(
+    { start: parsed.start, end: parsed.end, granularity: parsed.granularity },
+    { start, end, granularity },
+    `"${expression}"`
+  );
+}
+
+check('absolute dates, months and quarters', () => {
+  expectInterval('30 September 1975', '1975-09-30', '1975-09-30', 'day');
+  expectInterval('Sept 30, 1975', '1975-09-30', '1975-09-30', 'day');
+  expectInterval('September 1976', '1976-09-01', '1976-09-30', 'month');
+  expectInterval('Q2 1976', '1976-04-01', '1976-06-30', 'quarter');
+  expectInterval('second quarter of 1976', '1976-04-01', '1976-06-30', 'quarter');
+  expectInterval('1976', '1976-01-01', '1976-12-31', 'year');
+});
+
+check('parts of a year', () => {
+  expectInterval('early 1976', '1976-01-01', '1976-04-30', 'year');
+  expectInterval('mid-1976', '1976-05-01', '1976-08-31', 'year');
+  expectInterval('late 1975', '1975-09-01', '1975-12-31', 'year');
+});
+
+check('a month without a year takes the anchor year', () => {
+  expectInterval('March', '1976-03-01', '1976-03-31', 'month');
+});
+
+check('relative expressions shift from the anchor', () => {
+  expectInterval('yesterday', '1976-03-09', '1976-03-09', 'day');
+  expectInterval('last week', '1976-03-03', '1976-03-09', 'day');
+  expectInterval('next month', '1976-04-01', '1976-04-30', 'month');
+  expectInterval('three days ago', '1976-03-07', '1976-03-07', 'day');
+  expectInterval('in 3 months', '1976-06-01', '1976-06-30', 'month');
+});
+
+check('"within" spans from the anchor to the shifted date', () => {
+  expectInterval('within two weeks', '1976-03-10', '1976-03-24', 'day');
+  expectInterval('within 3 months', '1976-03-10', '1976-06-30', 'month');
+});
+
+check('impossible dates do not parse', () => {
+  assert.equal(parseTimeExpression('February 30, 1976', anchor), null);
+});
+
+check('time expressions are found in text', () => {
+  assert.deepEqual(
+    findTimeExpressions('On Sept 30 the minister said talks would resume by early 1976.'),
+    ['Sept 30', 'early 1976']
+  );
+});
+
+check('time bounds and windows', () => {
+  const bounds = normalizeTimeBounds({ start: '1976-03' }, anchor);
+  assert.deepEqual(bounds && [bounds.start, bounds.end, bounds.granularity], ['1976-03-01', '1976-03-31', 'month']);
+  assert.equal(describeTimeWindow([bounds!]), 'early 1976');
+});
@@ -0,0 +1,182 @@
+/**
+ * Paragraph-aware chunking of long cable bodies for claim extraction
+ *
+ * Chunks end at paragraph breaks (a paragraph longer than a chunk is split
+ * at sentence breaks) and each chunk starts with the last few sentences of
+ * the previous one, so a claim spanning a boundary is seen whole at least
+ * once. Claims extracted twice from the overlap are deduped on merge.
+ */
+
+export interface ChunkOptions {
+  maxChars?: number;      // Target chunk size
+  overlapChars?: number;  // Text repeated from the end of the previous chunk
+}
+
+export interface CableChunk {
+  index: number;
+  text: string;
+  start: number;  // Offsets of the chunk in the body
+  end: number;
+}
+
+/**
+ * A trimmed piece of the body with its offsets
+ */
+export interface Segment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const DEFAULT_MAX_CHARS = 6000;
+const DEFAULT_OVERLAP_CHARS = 600;
+
+// End of a sentence or paragraph, followed by the start of the next
+const SENTENCE_BREAK = /(?:[.!?]["')\]]?\s+|\n\s*\n)(?=\S)/g;
+
+/**
+ * Split a body into overlapping chunks. Bodies that fit in one chunk are
+ * returned whole.
+ */
+export function chunkCableBody(body: string, options: ChunkOptions = {}): CableChunk[] {
+  const { maxChars = DEFAULT_MAX_CHARS, overlapChars = DEFAULT_OVERLAP_CHARS } = options;
+
+  if (body.length <= maxChars) {
+    return [{ index: 0, text: body, start: 0, end: body.length }];
+  }
+
+  const segments = splitParagraphs(body).flatMap((p) => (p.text.length > maxChars ? splitLongParagraph(p, maxChars) : [p]));
+
+  const chunks: CableChunk[] = [];
+  let first = 0;
+  let overlapStart: number | null = null;
+  while (first < segments.length) {
+    // Pack whole segments up to the chunk size (always at least one)
+    const start: number = overlapStart ?? segments[first].start;
+    let next = first;
+    while (next < segments.length && (next === first || segments[next].end - start <= maxChars)) {
+      next++;
+    }
+
+    const end = segments[next - 1].end;
+    chunks.push({ index: chunks.length, text: body.slice(start, end), start, end });
+
+    overlapStart = findSentenceStart(body, Math.max(start + 1, end - overlapChars), end);
+    first = next;
+  }
+
+  return chunks;
+}
+
+/**
+ * How many claims to ask for from a piece of text: roughly one per 40
+ * words, more when much of the text is names, numbers and dates (a dense
+ * logistics paragraph holds more claims than prose)
+ */
+export function estimateClaimBudget(text: string, limits: { min?: number; max?: number } = {}): number {
+  const { min = 3, max = 30 } = limits;
+
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return min;
+
+  // Cables are often all caps, where capitalisation says nothing
+  const allCaps = text === text.toUpperCase();
+  const informative = words.filter((w, i) => /\d/.test(w) || (!allCaps && i > 0 && /^[A-Z][A-Za-z]/.test(w)));
+  const density = Math.min(informative.length / words.length, 0.5);
+
+  const budget = Math.round((words.length / 40) * (0.75 + density));
+  return Math.min(max, Math.max(min, budget));
+}
+
+/**
+ * First sentence start in [from, to), or null if there is none
+ */
+function findSentenceStart(body: string, from: number, to: number): number | null {
+  const pattern = new RegExp(SENTENCE_BREAK.source, 'g');
+  pattern.lastIndex = Math.max(0, from - 4);
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    const sentenceStart = match.index + match[0].length;
+    if (sentenceStart >= to) return null;
+    if (sentenceStart >= from) return sentenceStart;
+  }
+  return null;
+}
+
+/**
+ * Blank-line separated paragraphs of the body, in order
+ */
+export function splitParagraphs(body: string): Segment[] {
+  const segments: Segment[] = [];
+  const pattern = /\n\s*\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  const push = (end: number) => {
+    const raw = body.slice(start, end);
+    const text = raw.trim();
+    if (text) {
+      const offset = start + raw.indexOf(text);
+      segments.push({ text, start: offset, end: offset + text.length });
+    }
+  };
+
+  while ((match = pattern.exec(body)) !== null) {
+    push(match.index);
+    start = match.index + match[0].length;
+  }
+  push(body.length);
+
+  return segments;
+}
+
+function splitLongParagraph(paragraph: Segment, maxChars: number): Segment[] {
+  const segments: Segment[] = [];
+  const sentences = paragraph.text.match(/[^.!?]+(?:[.!?]+\s*|$)/g) || [paragraph.text];
+
+  let text = '';
+  let offset = 0;
+  let segmentStart = 0;
+  for (const sentence of sentences) {
+    if (text.length + sentence.length > maxChars && text.length > 0) {
+      segments.push({ text: text.trim(), start: paragraph.start + segmentStart, end: paragraph.start + offset });
+      text = '';
+      segmentStart = offset;
+    }
+    text += sentence;
+    offset += sentence.length;
+  }
+  if (text.trim()) {
+    segments.push({ text: text.trim(), start: paragraph.start + segmentStart, end: paragraph.start + offset });
+  }
+
+  return segments;
+}
+
+/**
+ * Sentences of the body, in order
+ */
+export function splitSentences(body: string): Segment[] {
+  const segments: Segment[] = [];
+  const pattern = new RegExp(SENTENCE_BREAK.source, 'g');
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  const push = (end: number) => {
+    const raw = body.slice(start, end);
+    const text = raw.trim();
+    if (text) {
+      const offset = start + raw.indexOf(text);
+      segments.push({ text, start: offset, end: offset + text.length });
+    }
+  };
+
+  while ((match = pattern.exec(body)) !== null) {
+    push(match.index + match[0].trimEnd().length);
+    start = match.index + match[0].length;
+  }
+  push(body.length);
+
+  return segments;
+}
@@ -0,0 +1,400 @@
+/**
+ * Claim extraction evaluation (eval-claims)
+ *
+ * Compares the claims saved in an output directory with hand-annotated gold
+ * claims, so prompt changes can be measured. Predicted claims are aligned
+ * one-to-one with gold claims, either lexically (word overlap) or by asking
+ * an LLM which claims state the same proposition. Reports precision, recall
+ * and F1 per claim type, type accuracy over the aligned pairs, and the rank
+ * correlation of importance.
+ *
+ * Gold file format:
+ *
+ * {
+ *   "documents": [
+ *     {
+ *       "doc_id": "1975TAIPEI06471",
+ *       "claims": [
+ *         { "claim_text": "Kao said Taiwan plans to produce tanks.", "claim_type": "attribution", "importance": 4 }
+ *       ]
+ *     }
+ *   ]
+ * }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLLMProvider } from './llm-provider.js';
+import { readAllCableOutputs } from './output-files.js';
+import { runPool } from './concurrency.js';
+import { CostLedger } from './cost-ledger.js';
+import { CLAIM_MATCH_SCHEMA } from './schemas.js';
+import { generateStructured } from './structured-output.js';
+import { wordCoverage } from './text-similarity.js';
+import type { Claim, ClaimMatchResult, ClaimType, GoldAnnotations, GoldClaim, LLMResponse } from './types.js';
+
+export type MatchMethod = 'lexical' | 'llm';
+
+export const CLAIM_EVAL_FILENAME = 'claim-eval.json';
+export const CLAIM_EVAL_REPORT_FILENAME = 'claim-eval.md';
+
+// Word-overlap F-score at which a predicted claim counts as the gold claim
+const LEXICAL_MATCH = 0.5;
+
+const CLAIM_TYPE_ORDER: ClaimType[] = ['event', 'assessment', 'plan', 'relationship', 'logistics', 'attribution', 'other'];
+
+const MATCHING_PROMPT = `You are aligning claims extracted from a diplomatic cable with reference (gold) claims.
+
+Match a predicted claim to a gold claim when both state the same proposition: the same actor, action and object, even if worded differently or with more or less detail.
+
+RULES:
+- Each gold claim matches at most one predicted claim, and each predicted claim at most one gold claim
+- Do not match claims that merely share a topic or entities
+- Leave claims unmatched when nothing corresponds`;
+
+export interface ClaimMatch {
+  gold_id: string;
+  claim_id: string;
+}
+
+export interface TypeScores {
+  gold: number;
+  predicted: number;
+  matched: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface ClaimEvalResult {
+  match_method: MatchMethod;
+  documents: number;
+  missing_outputs: string[];  // Annotated doc_ids with no saved output
+  overall: TypeScores;
+  by_type: Partial<Record<ClaimType, TypeScores>>;
+  type_accuracy: number | null;           // Share of matched pairs with the gold type
+  importance_correlation: number | null;  // Spearman's rho over matched pairs
+  per_document: Array<{ doc_id: string; gold: number; predicted: number; matched: number }>;
+}
+
+/**
+ * Read a gold annotation file, numbering unnamed claims g1..gn
+ */
+export function loadGoldAnnotations(filePath: string): Map<string, Required<GoldClaim>[]> {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as GoldAnnotations;
+  if (!Array.isArray(parsed.documents)) {
+    throw new Error(`${filePath}: expected {"documents": [{"doc_id": ..., "claims": [...]}]}`);
+  }
+
+  const gold = new Map<string, Required<GoldClaim>[]>();
+  for (const doc of parsed.documents) {
+    gold.set(
+      doc.doc_id,
+      doc.claims.map((c, idx) => ({ ...c, claim_id: c.claim_id || `g${idx + 1}` }))
+    );
+  }
+  return gold;
+}
+
+export interface ClaimEvalOptions {
+  outputDir: string;
+  goldPath: string;
+  matchMethod?: MatchMethod;
+  concurrency?: number;
+}
+
+/**
+ * Evaluate the saved outputs against the gold file, writing claim-eval.json
+ * and claim-eval.md to the output directory
+ */
+export async function runClaimEval(options: ClaimEvalOptions): Promise<ClaimEvalResult> {
+  const { outputDir, goldPath, matchMethod = 'lexical', concurrency = 1 } = options;
+  const gold = loadGoldAnnotations(goldPath);
+  const outputs = new Map(readAllCableOutputs(outputDir).map((o) => [o.doc_id, o]));
+
+  const docIds = [...gold.keys()];
+  const missing = docIds.filter((id) => !outputs.has(id));
+  console.log(`\n📏 eval-claims: ${docIds.length} annotated cables, ${docIds.length - missing.length} with outputs in ${outputDir}`);
+
+  const ledger = new CostLedger();
+  const alignments: DocumentAlignment[] = new Array(docIds.length);
+  await runPool(docIds, concurrency, async (docId, i) => {
+    const goldClaims = gold.get(docId)!;
+    const predicted = outputs.get(docId)?.claims || [];
+
+    let matches: ClaimMatch[];
+    if (matchMethod === 'llm') {
+      const result = await matchClaimsLLM(docId, goldClaims, predicted);
+      ledger.record('matching', result.response);
+      matches = result.matches;
+    } else {
+      matches = matchClaimsLexical(goldClaims, predicted);
+    }
+
+    console.log(`   ✓ ${docId}: ${matches.length} of ${goldClaims.length} gold claims matched (${predicted.length} predicted)`);
+    alignments[i] = { doc_id: docId, gold: goldClaims, predicted, matches };
+  });
+
+  const result = scoreClaimAlignment(alignments, matchMethod, missing);
+  fs.writeFileSync(path.join(outputDir, CLAIM_EVAL_FILENAME), JSON.stringify(result, null, 2));
+  fs.writeFileSync(path.join(outputDir, CLAIM_EVAL_REPORT_FILENAME), formatClaimEvalReport(result));
+
+  if (ledger.totalTokens > 0) {
+    console.log(`   ✓ Matching tokens: ${ledger.totalTokens} | Cost: $${ledger.totalCost.toFixed(4)}`);
+  }
+  return result;
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Pair gold and predicted claims greedily by word-overlap F-score
+ */
+export function matchClaimsLexical(gold: Required<GoldClaim>[], predicted: Claim[]): ClaimMatch[] {
+  const candidates: Array<ClaimMatch & { score: number }> = [];
+  for (const g of gold) {
+    for (const p of predicted) {
+      const recall = wordCoverage(g.claim_text, p.claim_text);
+      const precision = wordCoverage(p.claim_text, g.claim_text);
+      const score = recall + precision > 0 ? (2 * recall * precision) / (recall + precision) : 0;
+      if (score >= LEXICAL_MATCH) candidates.push({ gold_id: g.claim_id, claim_id: p.claim_id, score });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  return oneToOne(candidates);
+}
+
+/**
+ * Ask the LLM which predicted claims state the same proposition as a gold claim
+ */
+export async function matchClaimsLLM(
+  docId: string,
+  gold: Required<GoldClaim>[],
+  predicted: Claim[]
+): Promise<{ matches: ClaimMatch[]; response: LLMResponse }> {
+  if (gold.length === 0 || predicted.length === 0) {
+    return { matches: [], response: { content: '', tokens: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 } };
+  }
+
+  const userPrompt = `Align the predicted claims with the gold claims.
+
+CABLE ID: ${docId}
+
+GOLD CLAIMS:
+${gold.map((g) => `- ${g.claim_id}: "${g.claim_text}"`).join('\n')}
+
+PREDICTED CLAIMS:
+${predicted.map((p) => `- ${p.claim_id}: "${p.claim_text}"`).join('\n')}
+
+Return JSON ONLY in this format:
+{
+  "matches": [
+    { "gold_id": "g1", "claim_id": "c3" }
+  ]
+}`;
+
+  const { data, response } = await generateStructured<ClaimMatchResult>(
+    getLLMProvider('matching'),
+    MATCHING_PROMPT,
+    userPrompt,
+    CLAIM_MATCH_SCHEMA,
+    { label: 'claim matching' }
+  );
+
+  // Keep only pairs of known claims, first answer wins
+  const goldIds = new Set(gold.map((g) => g.claim_id));
+  const predictedIds = new Set(predicted.map((p) => p.claim_id));
+  const matches = oneToOne(data.matches.filter((m) => goldIds.has(m.gold_id) && predictedIds.has(m.claim_id)));
+
+  return { matches, response };
+}
+
+function oneToOne(candidates: ClaimMatch[]): ClaimMatch[] {
+  const usedGold = new Set<string>();
+  const usedPredicted = new Set<string>();
+  const matches: ClaimMatch[] = [];
+  for (const { gold_id, claim_id } of candidates) {
+    if (usedGold.has(gold_id) || usedPredicted.has(claim_id)) continue;
+    usedGold.add(gold_id);
+    usedPredicted.add(claim_id);
+    matches.push({ gold_id, claim_id });
+  }
+  return matches;
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+export interface DocumentAlignment {
+  doc_id: string;
+  gold: Required<GoldClaim>[];
+  predicted: Claim[];
+  matches: ClaimMatch[];
+}
+
+/**
+ * Score aligned documents. Overall scores count every matched pair; the
+ * scores for a type count only pairs where both claims have that type, over
+ * the predicted (precision) or gold (recall) claims of the type.
+ */
+export function scoreClaimAlignment(
+  alignments: DocumentAlignment[],
+  matchMethod: MatchMethod,
+  missingOutputs: string[] = []
+): ClaimEvalResult {
+  const counts = new Map<ClaimType | 'all', { gold: number; predicted: number; matched: number }>();
+  const bump = (type: ClaimType | 'all', field: 'gold' | 'predicted' | 'matched') => {
+    if (!counts.has(type)) counts.set(type, { gold: 0, predicted: 0, matched: 0 });
+    counts.get(type)![field]++;
+  };
+
+  const pairs: Array<{ gold: Required<GoldClaim>; predicted: Claim }> = [];
+
+  for (const doc of alignments) {
+    const goldById = new Map(doc.gold.map((g) => [g.claim_id, g]));
+    const predictedById = new Map(doc.predicted.map((p) => [p.claim_id, p]));
+
+    for (const g of doc.gold) {
+      bump(g.claim_type, 'gold');
+      bump('all', 'gold');
+    }
+    for (const p of doc.predicted) {
+      bump(p.claim_type, 'predicted');
+      bump('all', 'predicted');
+    }
+    for (const m of doc.matches) {
+      const pair = { gold: goldById.get(m.gold_id)!, predicted: predictedById.get(m.claim_id)! };
+      pairs.push(pair);
+      bump('all', 'matched');
+      if (pair.gold.claim_type === pair.predicted.claim_type) {
+        bump(pair.gold.claim_type, 'matched');
+      }
+    }
+  }
+
+  const scores = (type: ClaimType | 'all'): TypeScores => {
+    const c = counts.get(type) || { gold: 0, predicted: 0, matched: 0 };
+    const precision = c.predicted > 0 ? c.matched / c.predicted : 0;
+    const recall = c.gold > 0 ? c.matched / c.gold : 0;
+    return {
+      gold: c.gold,
+      predicted: c.predicted,
+      matched: c.matched,
+      precision: round(precision),
+      recall: round(recall),
+      f1: round(precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0),
+    };
+  };
+
+  const byType: Partial<Record<ClaimType, TypeScores>> = {};
+  for (const type of CLAIM_TYPE_ORDER) {
+    if (counts.has(type)) byType[type] = scores(type);
+  }
+
+  const rho = spearman(pairs.map((p) => p.gold.importance), pairs.map((p) => p.predicted.importance));
+
+  return {
+    match_method: matchMethod,
+    documents: alignments.length,
+    missing_outputs: missingOutputs,
+    overall: scores('all'),
+    by_type: byType,
+    type_accuracy: pairs.length > 0 ? round(pairs.filter((p) => p.gold.claim_type === p.predicted.claim_type).length / pairs.length) : null,
+    importance_correlation: rho === null ? null : round(rho),
+    per_document: alignments.map((doc) => ({
+      doc_id: doc.doc_id,
+      gold: doc.gold.length,
+      predicted: doc.predicted.length,
+      matched: doc.matches.length,
+    })),
+  };
+}
+
+/**
+ * Spearman's rank correlation (average ranks for ties); null when there
+ * are too few pairs or no variation
+ */
+export function spearman(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const rx = ranks(xs);
+  const ry = ranks(ys);
+
+  const mean = (v: number[]) => v.reduce((a, b) => a + b, 0) / v.length;
+  const mx = mean(rx);
+  const my = mean(ry);
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < rx.length; i++) {
+    cov += (rx[i] - mx) * (ry[i] - my);
+    vx += (rx[i] - mx) ** 2;
+    vy += (ry[i] - my) ** 2;
+  }
+  if (vx === 0 || vy === 0) return null;
+  return cov / Math.sqrt(vx * vy);
+}
+
+function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k].i] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+export function formatClaimEvalReport(result: ClaimEvalResult): string {
+  const lines: string[] = [];
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+  lines.push('# Claim Extraction Evaluation');
+  lines.push('');
+  lines.push(`**Generated:** ${new Date().toISOString()}`);
+  lines.push(`**Documents:** ${result.documents} | **Matching:** ${result.match_method}`);
+  if (result.missing_outputs.length > 0) {
+    lines.push(`**Annotated but not extracted (counted as missed):** ${result.missing_outputs.join(', ')}`);
+  }
+  lines.push('');
+
+  lines.push('| Type | Gold | Predicted | Precision | Recall | F1 |');
+  lines.push('|------|------|-----------|-----------|--------|----|');
+  const row = (label: string, s: TypeScores) =>
+    `| ${label} | ${s.gold} | ${s.predicted} | ${pct(s.precision)} | ${pct(s.recall)} | ${pct(s.f1)} |`;
+  for (const [type, scores] of Object.entries(result.by_type)) {
+    lines.push(row(type, scores));
+  }
+  lines.push(row('**all**', result.overall));
+  lines.push('');
+
+  lines.push(`**Type accuracy (matched pairs):** ${result.type_accuracy === null ? 'n/a' : pct(result.type_accuracy)}`);
+  lines.push(
+    `**Importance correlation (Spearman):** ${result.importance_correlation === null ? 'n/a' : result.importance_correlation.toFixed(3)}`
+  );
+  lines.push('');
+
+  lines.push('## Per Document');
+  lines.push('');
+  lines.push('| Doc ID | Gold | Predicted | Matched |');
+  lines.push('|--------|------|-----------|---------|');
+  for (const doc of result.per_document) {
+    lines.push(`| ${doc.doc_id} | ${doc.gold} | ${doc.predicted} | ${doc.matched} |`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,139 @@
+/**
+ * Claim relation graph (--claim-relations)
+ *
+ * Cables reason: one claim supports another, contradicts it, elaborates on
+ * it, causes it or comes before it. One LLM call per cable labels these
+ * links between claim IDs. The connected groups of related claims are what
+ * contextual and thematic questions target.
+ */
+
+import { getLLMProvider } from './llm-provider.js';
+import { CLAIM_RELATION_SCHEMA } from './schemas.js';
+import { generateStructured } from './structured-output.js';
+import type { Cable, Claim, ClaimRelation, ClaimRelationResult, ClaimRelationType, LLMResponse } from './types.js';
+
+export const RELATION_TYPES: ClaimRelationType[] = ['supports', 'contradicts', 'elaborates', 'causes', 'temporal-precedes'];
+
+const RELATION_PROMPT = `You are mapping how the claims extracted from a diplomatic cable relate to each other.
+
+RELATION TYPES (read as "FROM <type> TO"):
+- supports: FROM is evidence or a reason for believing TO
+- contradicts: FROM and TO cannot both be true, or FROM disputes TO
+- elaborates: FROM adds detail to TO (who, how, how much, where)
+- causes: FROM brought about, or is expected to bring about, TO
+- temporal-precedes: FROM happened before TO, and the order matters to the cable's account
+
+RULES:
+- Only link claims the cable itself connects; do not link claims merely because they share a topic
+- Use the most specific type that applies, and at most one relation per pair of claims
+- Leave claims unlinked if they stand alone`;
+
+/**
+ * Ask the LLM for the relations between a cable's claims
+ */
+export async function extractClaimRelations(
+  claims: Claim[],
+  cable: Cable
+): Promise<{ relations: ClaimRelation[]; response: LLMResponse }> {
+  if (claims.length < 2) {
+    return {
+      relations: [],
+      response: { content: '', tokens: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 },
+    };
+  }
+
+  const claimList = claims.map((c) => `- ${c.claim_id} (${c.claim_type}): "${c.claim_text}"`).join('\n');
+
+  const userPrompt = `Map the relations between these ${claims.length} claims.
+
+CABLE ID: ${cable.doc_nbr}
+SUBJECT: ${cable.subject}
+DATE: ${cable.date}
+
+CLAIMS:
+${claimList}
+
+Return JSON ONLY in this format:
+{
+  "relations": [
+    { "from": "c3", "to": "c1", "type": "supports", "reason": "Brief explanation" }
+  ]
+}`;
+
+  const { data, response } = await generateStructured<ClaimRelationResult>(
+    getLLMProvider('relations'),
+    RELATION_PROMPT,
+    userPrompt,
+    CLAIM_RELATION_SCHEMA,
+    { label: 'relations' }
+  );
+
+  return { relations: validateRelations(data.relations, claims), response };
+}
+
+/**
+ * Drop relations to unknown claims, self-links, unknown types and repeats
+ * of a pair already linked
+ */
+export function validateRelations(raw: ClaimRelationResult['relations'], claims: Claim[]): ClaimRelation[] {
+  const ids = new Set(claims.map((c) => c.claim_id));
+  const seenPairs = new Set<string>();
+  const relations: ClaimRelation[] = [];
+
+  for (const r of raw) {
+    if (!ids.has(r.from) || !ids.has(r.to) || r.from === r.to) continue;
+    if (!RELATION_TYPES.includes(r.type as ClaimRelationType)) continue;
+
+    const pair = [r.from, r.to].sort().join('|');
+    if (seenPairs.has(pair)) continue;
+    seenPairs.add(pair);
+
+    relations.push({ from: r.from, to: r.to, type: r.type as ClaimRelationType, ...(r.reason ? { reason: r.reason } : {}) });
+  }
+
+  return relations;
+}
+
+/**
+ * Relations whose claims are both in the list (e.g. after unsupported
+ * claims are left out)
+ */
+export function relationsAmong(relations: ClaimRelation[], claims: Claim[]): ClaimRelation[] {
+  const ids = new Set(claims.map((c) => c.claim_id));
+  return relations.filter((r) => ids.has(r.from) && ids.has(r.to));
+}
+
+/**
+ * Connected groups of related claims (claims with no relations are left
+ * out), most important group first
+ */
+export function groupRelatedClaims(claims: Claim[], relations: ClaimRelation[]): Claim[][] {
+  const parent = new Map(claims.map((c) => [c.claim_id, c.claim_id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const r of relationsAmong(relations, claims)) {
+    parent.set(find(r.from), find(r.to));
+  }
+
+  const groups = new Map<string, Claim[]>();
+  for (const claim of claims) {
+    const root = find(claim.claim_id);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(claim);
+  }
+
+  const weight = (group: Claim[]) => group.reduce((sum, c) => sum + c.importance, 0);
+  return [...groups.values()].filter((g) => g.length > 1).sort((a, b) => weight(b) - weight(a));
+}
+
+/**
+ * Format one relation, e.g. "c3 supports c1"
+ */
+export function formatRelation(relation: ClaimRelation): string {
+  return `${relation.from} ${relation.type} ${relation.to}`;
+}
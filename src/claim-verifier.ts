@@ -0,0 +1,206 @@
+/**
+ * Claim faithfulness verification (--verify-claims)
+ *
+ * Checks each extracted claim against the cable body. An LLM judges
+ * entailment (is the claim stated or directly implied by the body?), and a
+ * lexical check measures how many of the claim's words appear in its
+ * source spans. The two are combined into one verdict stored on the claim;
+ * unsupported claims are left out of question generation.
+ */
+
+import { getLLMProvider } from './llm-provider.js';
+import { CLAIM_VERIFICATION_SCHEMA } from './schemas.js';
+import { combineResponses, generateStructured } from './structured-output.js';
+import { wordCoverage } from './text-similarity.js';
+import type {
+  BatchClaimVerificationResponse,
+  Cable,
+  Claim,
+  ClaimVerificationResult,
+  LLMResponse,
+  SupportVerdict,
+} from './types.js';
+
+const VERIFICATION_PROMPT = `You are checking claims extracted from a diplomatic cable for FAITHFULNESS to the cable text.
+
+For each claim, decide whether the cable body entails it:
+- supported: The body states the claim or directly implies it. Paraphrase is fine.
+- partially_supported: Part of the claim is in the body, but some detail (a name, number, date, place, or the certainty of the statement) is missing, changed or overstated.
+- unsupported: The body does not say this, or says something different.
+
+Judge ONLY against the cable body, not against your own knowledge of events.
+Hedged statements in the body ("reportedly", "may") do not support claims stated as certain.`;
+
+const BATCH_SIZE = 25;
+
+// Share of a claim's words that must appear in its source for the lexical
+// check to back up the LLM's verdict
+const LEXICAL_SUPPORTED = 0.4;
+const LEXICAL_UNSUPPORTED = 0.25;
+const LEXICAL_VERBATIM = 0.9;
+
+/**
+ * Ask the LLM to judge a batch of claims against the body
+ */
+export async function verifyClaimsBatch(
+  claims: Claim[],
+  cable: Cable
+): Promise<{ results: Map<string, ClaimVerificationResult>; response: LLMResponse }> {
+  const client = getLLMProvider('verification');
+
+  const claimList = claims.map((c) => `- ${c.claim_id}: "${c.claim_text}"`).join('\n');
+
+  const userPrompt = `Check these ${claims.length} claims against the cable body.
+
+CABLE ID: ${cable.doc_nbr}
+SUBJECT: ${cable.subject}
+DATE: ${cable.date}
+
+--- CABLE BODY ---
+${cable.body}
+--- END CABLE BODY ---
+
+CLAIMS:
+${claimList}
+
+Return JSON ONLY in this format:
+{
+  "results": [
+    {
+      "claim_id": "c1",
+      "verdict": "supported", "partially_supported", or "unsupported",
+      "reason": "Brief explanation, quoting the body where it differs"
+    }
+  ]
+}`;
+
+  const { data, response } = await generateStructured<BatchClaimVerificationResponse>(
+    client,
+    VERIFICATION_PROMPT,
+    userPrompt,
+    CLAIM_VERIFICATION_SCHEMA,
+    { label: 'verification' }
+  );
+
+  const results = new Map<string, ClaimVerificationResult>();
+  for (const result of data.results) {
+    results.set(result.claim_id, result);
+  }
+
+  return { results, response };
+}
+
+/**
+ * Share of the claim's words found in its source spans (or, for claims that
+ * were not grounded, anywhere in the body)
+ */
+export function computeLexicalSupport(claim: Claim, body: string): number {
+  const source = claim.source_spans?.length ? claim.source_spans.map((s) => s.quote).join(' ') : body;
+  return Math.round(wordCoverage(claim.claim_text, source) * 100) / 100;
+}
+
+/**
+ * Combine the LLM verdict with lexical overlap. Low overlap downgrades the
+ * LLM's verdict by one level; near-verbatim claims are never unsupported.
+ */
+export function combineVerdicts(llmVerdict: SupportVerdict, lexicalOverlap: number): SupportVerdict {
+  switch (llmVerdict) {
+    case 'supported':
+      return lexicalOverlap >= LEXICAL_SUPPORTED ? 'supported' : 'partially_supported';
+    case 'partially_supported':
+      return lexicalOverlap >= LEXICAL_UNSUPPORTED ? 'partially_supported' : 'unsupported';
+    case 'unsupported':
+      return lexicalOverlap >= LEXICAL_VERBATIM ? 'partially_supported' : 'unsupported';
+  }
+}
+
+/**
+ * Claims that question generation should use (all but unsupported ones)
+ */
+export function filterSupportedClaims(claims: Claim[]): Claim[] {
+  return claims.filter((c) => c.verification?.verdict !== 'unsupported');
+}
+
+/**
+ * Run full verification
+ */
+export async function runClaimVerification(
+  claims: Claim[],
+  cable: Cable
+): Promise<{
+  verifiedClaims: Claim[];
+  report: string;
+  response: LLMResponse;
+}> {
+  if (claims.length === 0) {
+    return {
+      verifiedClaims: claims,
+      report: 'No claims to verify.',
+      response: { content: '', tokens: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 },
+    };
+  }
+
+  const batches: Claim[][] = [];
+  for (let i = 0; i < claims.length; i += BATCH_SIZE) {
+    batches.push(claims.slice(i, i + BATCH_SIZE));
+  }
+
+  // Batches are independent, so verify them concurrently
+  const batchResults = await Promise.all(batches.map((batch) => verifyClaimsBatch(batch, cable)));
+
+  const allResults = new Map<string, ClaimVerificationResult>();
+  for (const { results } of batchResults) {
+    for (const [id, result] of results) {
+      allResults.set(id, result);
+    }
+  }
+
+  const verifiedClaims = claims.map((claim) => {
+    const result = allResults.get(claim.claim_id);
+    // A claim the model skipped keeps no verdict rather than a guessed one
+    if (!result) return claim;
+
+    const lexicalOverlap = computeLexicalSupport(claim, cable.body);
+    return {
+      ...claim,
+      verification: {
+        verdict: combineVerdicts(result.verdict, lexicalOverlap),
+        llm_verdict: result.verdict,
+        lexical_overlap: lexicalOverlap,
+        reason: result.reason,
+      },
+    };
+  });
+
+  return {
+    verifiedClaims,
+    report: generateVerificationReport(verifiedClaims),
+    response: combineResponses(batchResults.map((r) => r.response)),
+  };
+}
+
+function generateVerificationReport(claims: Claim[]): string {
+  const lines: string[] = ['Claim Verification Report', '='.repeat(50)];
+
+  const counts: Record<SupportVerdict, number> = { supported: 0, partially_supported: 0, unsupported: 0 };
+  for (const claim of claims) {
+    if (claim.verification) counts[claim.verification.verdict]++;
+  }
+
+  lines.push(`\nVerified: ${claims.filter((c) => c.verification).length} claims`);
+  lines.push(
+    `Supported: ${counts.supported} | Partially: ${counts.partially_supported} | Unsupported: ${counts.unsupported}`
+  );
+
+  const flagged = claims.filter((c) => c.verification && c.verification.verdict !== 'supported');
+  if (flagged.length > 0) {
+    lines.push('\n### Not Fully Supported');
+    for (const claim of flagged) {
+      const v = claim.verification!;
+      lines.push(`\n${claim.claim_id} (${v.verdict}, LLM: ${v.llm_verdict}, overlap ${v.lexical_overlap}): "${claim.claim_text.slice(0, 60)}..."`);
+      lines.push(`  Reason: ${v.reason}`);
+    }
+  }
+
+  return lines.join('\n');
+}
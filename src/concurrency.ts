@@ -0,0 +1,145 @@
+/**
+ * Concurrency helpers: a shared token-bucket rate limiter for LLM calls
+ * and a bounded worker pool for batch processing
+ */
+
+// =============================================================================
+// Rate Limiter
+// =============================================================================
+
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * Token buckets for requests/min and tokens/min, shared by every provider.
+ * Callers acquire capacity before each HTTP request; a 429 pauses all
+ * callers at once (backoff) instead of each request sleeping on its own.
+ */
+export class RateLimiter {
+  private requestBucket: number;
+  private tokenBucket: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  // Acquisitions are served in FIFO order so large requests aren't starved
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private limits: RateLimits = {}) {
+    this.requestBucket = limits.requestsPerMinute ?? 0;
+    this.tokenBucket = limits.tokensPerMinute ?? 0;
+  }
+
+  /**
+   * Wait until a request of roughly `tokens` tokens may be sent
+   */
+  acquire(tokens: number): Promise<void> {
+    const turn = this.queue.then(() => this.waitForCapacity(tokens));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Correct the token bucket once the real usage of a request is known
+   */
+  settle(estimatedTokens: number, actualTokens: number): void {
+    if (this.limits.tokensPerMinute) {
+      this.tokenBucket -= actualTokens - estimatedTokens;
+    }
+  }
+
+  /**
+   * Pause every caller for `delayMs` (e.g. after a 429)
+   */
+  backoff(delayMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+  }
+
+  private async waitForCapacity(tokens: number): Promise<void> {
+    const { requestsPerMinute: rpm, tokensPerMinute: tpm } = this.limits;
+
+    for (;;) {
+      this.refill();
+
+      let wait = this.pausedUntil - Date.now();
+      if (wait <= 0) {
+        // A request bigger than the whole bucket only needs a full bucket
+        const needed = tpm ? Math.min(tokens, tpm) : 0;
+        const requestWait = rpm && this.requestBucket < 1 ? ((1 - this.requestBucket) / rpm) * 60000 : 0;
+        const tokenWait = tpm && this.tokenBucket < needed ? ((needed - this.tokenBucket) / tpm) * 60000 : 0;
+        wait = Math.max(requestWait, tokenWait);
+      }
+
+      if (wait <= 0) {
+        if (rpm) this.requestBucket -= 1;
+        if (tpm) this.tokenBucket -= tokens;
+        return;
+      }
+
+      await new Promise((r) => setTimeout(r, Math.ceil(wait)));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedMinutes = (now - this.lastRefill) / 60000;
+    this.lastRefill = now;
+
+    const { requestsPerMinute: rpm, tokensPerMinute: tpm } = this.limits;
+    if (rpm) this.requestBucket = Math.min(rpm, this.requestBucket + elapsedMinutes * rpm);
+    if (tpm) this.tokenBucket = Math.min(tpm, this.tokenBucket + elapsedMinutes * tpm);
+  }
+}
+
+let sharedLimiter = new RateLimiter();
+
+export function configureRateLimiter(limits: RateLimits): void {
+  sharedLimiter = new RateLimiter(limits);
+}
+
+export function getRateLimiter(): RateLimiter {
+  return sharedLimiter;
+}
+
+/**
+ * Rough token estimate for a prompt (~4 characters per token)
+ */
+export function estimateTokens(...texts: string[]): number {
+  return Math.ceil(texts.reduce((sum, t) => sum + t.length, 0) / 4);
+}
+
+// =============================================================================
+// Worker Pool
+// =============================================================================
+
+export const RETRY_BASE_DELAY_MS = 15000;
+
+/**
+ * Backoff before retrying a failed LLM request: doubling from the base
+ * delay on each attempt, capped at 8x the base (2 minutes by default)
+ */
+export function retryDelay(attempt: number, baseMs = RETRY_BASE_DELAY_MS): number {
+  return Math.min(baseMs * Math.pow(2, attempt), baseMs * 8);
+}
+
+/**
+ * Run `worker` over `items` with at most `concurrency` in flight. Workers
+ * stop picking up new items once `shouldStop` returns true.
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
@@ -0,0 +1,139 @@
+/**
+ * Cost accounting per pipeline stage, and a run-wide cost budget
+ */
+
+import { TruncatedResponseError } from './llm-errors.js';
+import { estimateTokens } from './concurrency.js';
+import { computeCost } from './pricing.js';
+import type { LLMProvider } from './llm-provider.js';
+import type { LLMResponse, LLMStage, StageCost } from './types.js';
+
+// =============================================================================
+// Per-cable Ledger
+// =============================================================================
+
+export class CostLedger {
+  private stages: Partial<Record<LLMStage, StageCost>> = {};
+
+  record(stage: LLMStage, response: LLMResponse): void {
+    const entry = this.stages[stage] || { tokens: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 };
+    entry.tokens += response.tokens;
+    entry.prompt_tokens += response.prompt_tokens;
+    entry.completion_tokens += response.completion_tokens;
+    entry.cost_usd += response.cost_usd;
+    this.stages[stage] = entry;
+  }
+
+  get totalTokens(): number {
+    return Object.values(this.stages).reduce((sum, s) => sum + s.tokens, 0);
+  }
+
+  get totalCost(): number {
+    return Object.values(this.stages).reduce((sum, s) => sum + s.cost_usd, 0);
+  }
+
+  breakdown(): Partial<Record<LLMStage, StageCost>> {
+    return { ...this.stages };
+  }
+}
+
+// =============================================================================
+// Run-wide Budget
+// =============================================================================
+
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly maxCost: number,
+    readonly spent: number,
+    readonly estimate = 0
+  ) {
+    super(
+      estimate > 0
+        ? `Cost budget of $${maxCost.toFixed(4)} would be exceeded by a call estimated at $${estimate.toFixed(4)} ($${spent.toFixed(4)} spent)`
+        : `Cost budget of $${maxCost.toFixed(4)} reached ($${spent.toFixed(4)} spent)`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+let maxCost: number | null = null;
+let spent = 0;
+// Estimated cost of the calls in flight, held back from the budget until
+// each call finishes and is charged what it actually cost
+let reserved = 0;
+
+export function configureBudget(maxUsd: number | null): void {
+  maxCost = maxUsd;
+  spent = 0;
+  reserved = 0;
+}
+
+/**
+ * Money actually spent on live calls so far (cache hits are free)
+ */
+export function getBudgetSpent(): number {
+  return spent;
+}
+
+/**
+ * Budget left for new calls: not spent, and not reserved by calls in flight
+ */
+export function getBudgetRemaining(): number | null {
+  return maxCost === null ? null : maxCost - spent - reserved;
+}
+
+/**
+ * Hold back a call's estimated cost, or refuse the call if the estimate
+ * doesn't fit in what is left of the budget
+ */
+function reserve(estimate: number): number {
+  if (maxCost === null) return 0;
+  if (spent >= maxCost || spent + reserved + estimate > maxCost) {
+    throw new BudgetExceededError(maxCost, spent, estimate);
+  }
+  reserved += estimate;
+  return estimate;
+}
+
+/**
+ * Wrap a provider so every live call is charged to the budget. Each call
+ * reserves its estimated cost before it starts, so concurrent calls can't
+ * together overshoot the budget, and is refused if the estimate doesn't
+ * fit. The estimate prices the prompt, plus as many completion tokens as
+ * this provider's calls have averaged (the prompt size before the first).
+ */
+export function withBudget(provider: LLMProvider): LLMProvider {
+  let calls = 0;
+  let completionTokens = 0;
+
+  const charge = (response: LLMResponse) => {
+    spent += response.cost_usd;
+    calls++;
+    completionTokens += response.completion_tokens;
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    temperature: provider.temperature,
+    async generateJSON<T>(systemPrompt: string, userPrompt: string, schema?: object) {
+      let reservation = 0;
+      if (maxCost !== null) {
+        const promptTokens = estimateTokens(systemPrompt, userPrompt);
+        const expectedCompletion = calls > 0 ? completionTokens / calls : promptTokens;
+        reservation = reserve(computeCost(provider.model, promptTokens, expectedCompletion));
+      }
+      try {
+        const result = await provider.generateJSON<T>(systemPrompt, userPrompt, schema);
+        charge(result.response);
+        return result;
+      } catch (error) {
+        // Truncated calls were still billed
+        if (error instanceof TruncatedResponseError) charge(error.response);
+        throw error;
+      } finally {
+        reserved -= reservation;
+      }
+    },
+  };
+}
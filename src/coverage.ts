@@ -0,0 +1,144 @@
+/**
+ * Claim coverage (--coverage)
+ *
+ * Every claim at or above an importance threshold should have at least one
+ * usable question: one whose leakage is at or below the leakage threshold.
+ * Claims without one get follow-up targeted questions, scored like the
+ * rest (and validated and regenerated too, when those steps are on).
+ */
+
+import { filterSupportedClaims } from './claim-verifier.js';
+import { generateFollowUpQuestions, withKnownTargets } from './generate-questions.js';
+import { checkAllLeakage } from './leakage-checker.js';
+import { runLeakageValidation } from './llm-leakage-validator.js';
+import { regenerateLeakyQuestions } from './question-regeneration.js';
+import { combineResponses } from './structured-output.js';
+import type { Cable, Claim, CoverageSummary, LLMResponse, Question, QuestionStyle } from './types.js';
+
+export const DEFAULT_MIN_IMPORTANCE = 4;
+export const COVERAGE_STYLES: QuestionStyle[] = ['targeted', 'contextual', 'thematic', 'multi_hop'];
+
+const LEAKAGE_THRESHOLD = 0.3;
+
+export interface CoverageOptions {
+  minImportance?: number;  // Default: 4
+  threshold?: number;      // Leakage score a usable question stays at or below (default: 0.3)
+  validate?: boolean;      // LLM-validate the follow-ups, as --validate-leakage
+  regenerate?: boolean;    // Rewrite leaky follow-ups, as --regenerate
+  maxAttempts?: number;
+  cableContext?: Cable;
+}
+
+/**
+ * One row of the coverage matrix: a claim's usable and total questions per style
+ */
+export interface CoverageRow {
+  claim: Claim;
+  styles: Record<QuestionStyle, { usable: number; total: number }>;
+  covered: boolean;
+}
+
+/**
+ * Drop questions aimed at unknown claims, then generate follow-up questions
+ * for the important claims that have no usable question
+ */
+export async function ensureCoverage(
+  claims: Claim[],
+  questions: Question[],
+  options: CoverageOptions = {}
+): Promise<{ questions: Question[]; summary: CoverageSummary; dropped: number; response: LLMResponse }> {
+  const {
+    minImportance = DEFAULT_MIN_IMPORTANCE,
+    threshold = LEAKAGE_THRESHOLD,
+    validate = false,
+    regenerate = false,
+    maxAttempts,
+    cableContext,
+  } = options;
+
+  const known = withKnownTargets(questions, claims);
+  const dropped = questions.length - known.length;
+
+  const gaps = findCoverageGaps(claims, known, minImportance, threshold);
+  const responses: LLMResponse[] = [];
+  let followUps: Question[] = [];
+
+  if (gaps.length > 0) {
+    console.log(`  [Coverage] Generating follow-up questions for ${gaps.length} claims: ${gaps.map((c) => c.claim_id).join(', ')}`);
+    const gapIds = new Set(gaps.map((c) => c.claim_id));
+    const previous = known.filter((q) => (q.targets_claim_ids || [q.targets_claim_id]).some((id) => gapIds.has(id)));
+    const generated = await generateFollowUpQuestions(gaps, previous, cableContext);
+    responses.push(generated.response);
+
+    // Number follow-ups after any from earlier runs
+    const used = known.map((q) => /^f(\d+)$/.exec(q.question_id)).filter((m) => m !== null).map((m) => parseInt(m![1], 10));
+    const first = Math.max(0, ...used) + 1;
+    followUps = checkAllLeakage(
+      generated.questions.map((q, idx) => ({ ...q, question_id: `f${first + idx}` })),
+      claims
+    );
+
+    if (validate && followUps.length > 0) {
+      const { validatedQuestions, response } = await runLeakageValidation(followUps, claims);
+      followUps = validatedQuestions;
+      responses.push(response);
+    }
+    if (regenerate && followUps.some((q) => q.leakage_score > threshold)) {
+      const regenerated = await regenerateLeakyQuestions(followUps, claims, { maxAttempts, threshold, validate, cableContext });
+      followUps = regenerated.questions;
+      responses.push(regenerated.response);
+    }
+  }
+
+  const all = [...known, ...followUps];
+  const required = filterSupportedClaims(claims).filter((c) => c.importance >= minImportance);
+  const uncovered = findCoverageGaps(claims, all, minImportance, threshold).map((c) => c.claim_id);
+
+  return {
+    questions: all,
+    summary: {
+      min_importance: minImportance,
+      threshold,
+      required: required.length,
+      covered: required.length - uncovered.length,
+      follow_ups: followUps.length,
+      uncovered,
+    },
+    dropped,
+    response: combineResponses(responses),
+  };
+}
+
+/**
+ * Supported claims at or above minImportance with no question at or below
+ * the leakage threshold
+ */
+export function findCoverageGaps(claims: Claim[], questions: Question[], minImportance: number, threshold: number): Claim[] {
+  return filterSupportedClaims(claims).filter(
+    (c) =>
+      c.importance >= minImportance &&
+      !questions.some((q) => targetsOf(q).includes(c.claim_id) && q.leakage_score <= threshold)
+  );
+}
+
+/**
+ * Claims x styles: how many questions of each style target each claim, and
+ * how many of those are usable
+ */
+export function buildCoverageMatrix(claims: Claim[], questions: Question[], threshold = LEAKAGE_THRESHOLD): CoverageRow[] {
+  return claims.map((claim) => {
+    const styles = Object.fromEntries(COVERAGE_STYLES.map((s) => [s, { usable: 0, total: 0 }])) as CoverageRow['styles'];
+    for (const q of questions) {
+      if (!targetsOf(q).includes(claim.claim_id)) continue;
+      const cell = styles[q.question_style || 'targeted'];
+      if (!cell) continue;
+      cell.total++;
+      if (q.leakage_score <= threshold) cell.usable++;
+    }
+    return { claim, styles, covered: Object.values(styles).some((cell) => cell.usable > 0) };
+  });
+}
+
+function targetsOf(question: Question): string[] {
+  return question.targets_claim_ids || [question.targets_claim_id];
+}
@@ -0,0 +1,229 @@
+/**
+ * Entity registry: canonical IDs and types for the entities named in claims
+ *
+ * Claims keep the surface forms the cable uses ("GROC", "Minister Kao");
+ * the registry maps each form to one canonical entity, so "ROC" and
+ * "Taiwan" are recognised as the same country by the leakage checker and
+ * across cables. It is a JSON file that grows as new entities are
+ * resolved (see entity-resolver.ts) and can be edited by hand between runs:
+ *
+ * {
+ *   "entities": [
+ *     { "id": "country:taiwan", "name": "Taiwan", "type": "country", "aliases": ["ROC", "GROC", "Taiwan"] }
+ *   ]
+ * }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Claim, EntityRecord, EntityType } from './types.js';
+
+export const DEFAULT_REGISTRY_PATH = './entity-registry.json';
+
+export const ENTITY_TYPES: EntityType[] = ['person', 'country', 'org', 'place', 'weapon_system', 'other'];
+
+// Titles dropped when matching a person by name ("Minister Kao" -> "Kao")
+const TITLES = [
+  'prime minister', 'foreign minister', 'defense minister', 'vice minister', 'deputy minister',
+  'minister', 'vice president', 'president', 'premier', 'chairman', 'secretary general',
+  'secretary', 'ambassador', 'general', 'gen', 'admiral', 'adm', 'colonel', 'col',
+  'king', 'prince', 'mr', 'mrs', 'ms', 'dr',
+];
+
+export class EntityRegistry {
+  private records = new Map<string, EntityRecord>();
+  private byAlias = new Map<string, string>();
+  private dirty = false;
+
+  constructor(private filePath: string | null = null) {
+    if (filePath && fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { entities?: EntityRecord[] };
+      for (const record of parsed.entities || []) {
+        this.index({ ...record, aliases: [...new Set([record.name, ...record.aliases])] });
+      }
+    }
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  get(id: string): EntityRecord | undefined {
+    return this.records.get(id);
+  }
+
+  all(): EntityRecord[] {
+    return [...this.records.values()];
+  }
+
+  /**
+   * Find the entity a surface form refers to: by exact alias (ignoring case
+   * and punctuation), then for people by the name without its title
+   */
+  lookup(mention: string): EntityRecord | undefined {
+    const id = this.byAlias.get(aliasKey(mention));
+    if (id) return this.records.get(id);
+
+    const untitled = stripTitle(mention);
+    if (untitled !== aliasKey(mention)) {
+      const personId = this.byAlias.get(untitled);
+      if (personId && this.records.get(personId)?.type === 'person') return this.records.get(personId);
+    }
+    return undefined;
+  }
+
+  /**
+   * Add a new entity, returning it (or the existing entity with that name)
+   */
+  register(name: string, type: EntityType, aliases: string[] = []): EntityRecord {
+    const existing = this.lookup(name);
+    if (existing && existing.type === type) {
+      for (const alias of aliases) this.addAlias(existing.id, alias);
+      return existing;
+    }
+
+    const base = `${type}:${slugify(name)}`;
+    let id = base;
+    for (let n = 2; this.records.has(id); n++) id = `${base}-${n}`;
+
+    const record: EntityRecord = { id, name, type, aliases: [...new Set([name, ...aliases])] };
+    this.index(record);
+    this.dirty = true;
+    return record;
+  }
+
+  addAlias(id: string, alias: string): void {
+    const record = this.records.get(id);
+    const key = aliasKey(alias);
+    if (!record || !key || this.byAlias.has(key)) return;
+
+    record.aliases.push(alias);
+    this.byAlias.set(key, id);
+    this.dirty = true;
+  }
+
+  /**
+   * Every surface form of the given entities
+   */
+  aliasesOf(ids: string[]): string[] {
+    return ids.flatMap((id) => this.records.get(id)?.aliases || []);
+  }
+
+  /**
+   * Registry entries that might be the same entity as one of the mentions
+   * (sharing a word, or one being the other's acronym), to offer the
+   * resolver as candidates
+   */
+  candidatesFor(mentions: string[], limit = 50): EntityRecord[] {
+    const words = new Set(mentions.flatMap((m) => aliasKey(m).split(' ')).filter((w) => w.length > 2));
+    const acronyms = new Set(mentions.map((m) => aliasKey(m).replace(/ /g, '')));
+
+    const candidates: EntityRecord[] = [];
+    for (const record of this.records.values()) {
+      const related = record.aliases.some((alias) => {
+        const key = aliasKey(alias);
+        return key.split(' ').some((w) => words.has(w)) || acronyms.has(acronymOf(key)) || words.has(key);
+      });
+      if (related) candidates.push(record);
+      if (candidates.length >= limit) break;
+    }
+    return candidates;
+  }
+
+  /**
+   * Write the registry back if it changed, sorted by ID so hand edits and
+   * diffs stay readable
+   */
+  save(): void {
+    if (!this.dirty || !this.filePath) return;
+
+    const entities = this.all().sort((a, b) => a.id.localeCompare(b.id));
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ entities }, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+    this.dirty = false;
+  }
+
+  private index(record: EntityRecord): void {
+    this.records.set(record.id, record);
+    for (const alias of record.aliases) {
+      const key = aliasKey(alias);
+      if (key && !this.byAlias.has(key)) this.byAlias.set(key, record.id);
+    }
+  }
+}
+
+let sharedRegistry = new EntityRegistry();
+
+/**
+ * Load the registry file (it is created on the first save if missing)
+ */
+export function configureEntityRegistry(filePath: string | null): void {
+  sharedRegistry = new EntityRegistry(filePath);
+}
+
+export function getEntityRegistry(): EntityRegistry {
+  return sharedRegistry;
+}
+
+/**
+ * Set entity_ids on a claim from the entities the registry already knows.
+ * Returns the mentions it doesn't know.
+ */
+export function linkKnownEntities(claim: Claim, registry = getEntityRegistry()): { claim: Claim; unknown: string[] } {
+  const ids: string[] = [];
+  const unknown: string[] = [];
+  for (const mention of claim.entities) {
+    const record = registry.lookup(mention);
+    if (record) {
+      if (!ids.includes(record.id)) ids.push(record.id);
+    } else {
+      unknown.push(mention);
+    }
+  }
+  return { claim: { ...claim, entity_ids: ids }, unknown };
+}
+
+/**
+ * Format a mention with its canonical entity, e.g. "GROC → Taiwan (country)"
+ */
+export function describeEntity(mention: string, registry = getEntityRegistry()): string {
+  const record = registry.lookup(mention);
+  if (!record) return mention;
+  return aliasKey(record.name) === aliasKey(mention)
+    ? `${mention} (${record.type})`
+    : `${mention} → ${record.name} (${record.type})`;
+}
+
+function aliasKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/^the\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function stripTitle(text: string): string {
+  let key = aliasKey(text);
+  for (const title of TITLES) {
+    if (key.startsWith(title + ' ')) {
+      key = key.slice(title.length + 1);
+      break;
+    }
+  }
+  return key;
+}
+
+function acronymOf(key: string): string {
+  return key
+    .split(' ')
+    .filter((w) => w.length > 0 && !['of', 'the', 'and', 'for'].includes(w))
+    .map((w) => w[0])
+    .join('');
+}
+
+function slugify(name: string): string {
+  return aliasKey(name).replace(/[\s]+/g, '-') || 'unnamed';
+}
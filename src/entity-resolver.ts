@@ -0,0 +1,102 @@
+/**
+ * Entity resolution: link claim entities to the entity registry
+ *
+ * Mentions the registry already knows are linked directly. The rest go to
+ * the LLM in one call per cable, along with registry entries that might be
+ * the same entity; its answers become new aliases or new registry entries.
+ */
+
+import { getLLMProvider } from './llm-provider.js';
+import { ENTITY_RESOLUTION_SCHEMA } from './schemas.js';
+import { generateStructured } from './structured-output.js';
+import { getEntityRegistry, linkKnownEntities, ENTITY_TYPES } from './entity-registry.js';
+import type { Cable, Claim, EntityResolutionResult, LLMResponse } from './types.js';
+
+const RESOLUTION_PROMPT = `You are normalizing named entities mentioned in a diplomatic cable.
+
+For each mention, give:
+- canonical_name: The entity's standard full name (e.g. "GROC" -> "Taiwan", "Minister Kao" -> "Kao Kuei-yuan" if the cable makes the identity clear, otherwise "Kao")
+- type: person, country, org, place, weapon_system, or other
+- existing_id: The ID of a KNOWN ENTITY that is the same real-world entity, or null
+
+RULES:
+- Only match a known entity when you are confident it is the same entity in this cable's context
+- Governments and their countries are the same entity ("GROC", "ROC" and "Taiwan" are all the country Taiwan)
+- Use the cable's date and subject to disambiguate people with the same surname`;
+
+/**
+ * Set entity_ids on every claim, resolving unknown mentions with the LLM
+ * and growing the registry
+ */
+export async function resolveEntities(
+  claims: Claim[],
+  cable: Cable
+): Promise<{ resolvedClaims: Claim[]; response: LLMResponse; added: number; aliased: number }> {
+  const registry = getEntityRegistry();
+  const unknown = [...new Set(claims.flatMap((c) => linkKnownEntities(c, registry).unknown))];
+
+  let response: LLMResponse = { content: '', tokens: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 };
+  let added = 0;
+  let aliased = 0;
+
+  if (unknown.length > 0) {
+    const candidates = registry.candidatesFor(unknown);
+    const known = candidates.length > 0
+      ? candidates.map((r) => `- ${r.id}: ${r.name} (${r.type}; also ${r.aliases.join(', ')})`).join('\n')
+      : '(none)';
+
+    const userPrompt = `Normalize the entities mentioned in this cable.
+
+CABLE ID: ${cable.doc_nbr}
+SUBJECT: ${cable.subject}
+DATE: ${cable.date}
+
+MENTIONS:
+${unknown.map((m) => `- ${m}`).join('\n')}
+
+KNOWN ENTITIES:
+${known}
+
+Return JSON ONLY in this format:
+{
+  "entities": [
+    { "mention": "GROC", "canonical_name": "Taiwan", "type": "country", "existing_id": "country:taiwan" }
+  ]
+}`;
+
+    const result = await generateStructured<EntityResolutionResult>(
+      getLLMProvider('entities'),
+      RESOLUTION_PROMPT,
+      userPrompt,
+      ENTITY_RESOLUTION_SCHEMA,
+      { label: 'entities' }
+    );
+    response = result.response;
+
+    const pending = new Set(unknown);
+    for (const entity of result.data.entities) {
+      // Ignore answers for mentions we didn't ask about
+      if (!pending.delete(entity.mention)) continue;
+
+      if (entity.existing_id && registry.get(entity.existing_id)) {
+        registry.addAlias(entity.existing_id, entity.mention);
+        aliased++;
+      } else {
+        const type = ENTITY_TYPES.includes(entity.type) ? entity.type : 'other';
+        const sizeBefore = registry.size;
+        registry.register(entity.canonical_name, type, [entity.mention]);
+        if (registry.size > sizeBefore) added++;
+        else aliased++;
+      }
+    }
+
+    registry.save();
+  }
+
+  return {
+    resolvedClaims: claims.map((c) => linkKnownEntities(c, registry).claim),
+    response,
+    added,
+    aliased,
+  };
+}
@@ -2,8 +2,16 @@
  * Claim extraction from diplomatic cables
  */
 
-import { getGeminiClient } from './gemini.js';
-import type { Cable, Claim, ClaimExtractionResult, LLMResponse } from './types.js';
+import { getLLMProvider, getSamplingProvider } from './llm-provider.js';
+import { TruncatedResponseError } from './llm-errors.js';
+import { CLAIM_EXTRACTION_SCHEMA } from './schemas.js';
+import { combineResponses, generateStructured } from './structured-output.js';
+import { chunkCableBody, estimateClaimBudget } from './chunking.js';
+import { wordSetSimilarity } from './text-similarity.js';
+import { groundClaims, getUngroundedClaims } from './grounding.js';
+import { normalizeClaimTime, formatInterval } from './temporal.js';
+import type { ChunkOptions } from './chunking.js';
+import type { Cable, Claim, ClaimExtractionResult, ClaimModality, ClaimType, LLMResponse } from './types.js';
 
 const CLAIM_EXTRACTION_PROMPT = `You are extracting ATOMIC CLAIMS from a diplomatic cable for evaluation purposes.
 
@@ -22,6 +30,16 @@ CLAIM TYPES:
 - attribution: Who said/reported/believes something
 - other: Anything that doesn't fit above categories
 
+EPISTEMIC FIELDS:
+- source: Who asserts the claim ("Minister Kao", "Embassy", "press reports"), or null for the cable's own statements of fact
+- modality: How the claim is asserted
+  - fact: Stated as fact by the cable's author
+  - reported: Someone else's statement relayed by the cable ("X said", "according to X")
+  - assessed: A judgment by the author or a named party ("we believe", "Embassy assesses")
+  - speculative: A hedged possibility ("may", "possibly", "it is rumored")
+  - planned: An intention, proposal, or scheduled action
+- confidence_marker: The cable's hedge words, copied exactly ("reportedly", "we believe", "almost certainly"), or null
+
 IMPORTANCE SCALE (1-5):
 - 5: Core intelligence value (would be headline in briefing)
 - 4: Significant supporting detail
@@ -30,11 +48,13 @@ IMPORTANCE SCALE (1-5):
 - 1: Routine/administrative information
 
 EXTRACTION RULES:
-1. Extract 5-20 claims depending on cable length and density
+1. Extract up to the number of claims requested, fewer if the text is thin
 2. Focus on claims that would be valuable intelligence
 3. Include who/what/when/where when present in the text
 4. Keep entities as they appear (don't normalize country names)
 5. Preserve the cable's own uncertainty language
+6. For each claim, copy the sentence(s) of the cable body that support it VERBATIM into supporting_quotes
+7. For time_bounds, use ISO dates (1975-02, 1975-02-14) where the text gives them; otherwise copy the cable's own expression ("late September", "yesterday") and it will be resolved against the cable date
 
 OUTPUT FORMAT: Return ONLY valid JSON matching this structure:
 {
@@ -45,23 +65,187 @@ OUTPUT FORMAT: Return ONLY valid JSON matching this structure:
       "claim_type": "event|assessment|plan|relationship|logistics|attribution|other",
       "entities": ["Entity1", "Entity2"],
       "time_bounds": {"start": "1975-02", "end": null},
-      "importance": 4
+      "importance": 4,
+      "source": "Minister Kao",
+      "modality": "fact|reported|assessed|speculative|planned",
+      "confidence_marker": "reportedly",
+      "supporting_quotes": ["Exact sentence copied from the cable body"]
     }
   ]
 }`;
 
+// How many times a truncated cable may be halved before giving up
+const MAX_SPLIT_DEPTH = 3;
+const MIN_SPLIT_LENGTH = 1000;
+
+// Claims from overlapping text at least this similar are the same claim
+const DUPLICATE_SIMILARITY = 0.8;
+
 export interface ClaimExtractionOptions {
-  maxClaims?: number;
+  maxClaims?: number;  // Default: scaled to the body's length and density
   minImportance?: number;
+  chunk?: ChunkOptions;
+  sample?: { index: number; temperature: number };  // Set for repeated runs (see self-consistency.ts)
 }
 
+/**
+ * Extract claims from a cable. Long bodies are split into overlapping
+ * paragraph-aware chunks that are extracted separately and merged.
+ */
 export async function extractClaims(
   cable: Cable,
   options: ClaimExtractionOptions = {}
 ): Promise<{ claims: Claim[]; response: LLMResponse }> {
-  const { maxClaims = 20, minImportance = 1 } = options;
+  const chunks = chunkCableBody(cable.body, options.chunk);
+
+  // An explicit maxClaims is shared out by chunk length
+  const budgetFor = (text: string) =>
+    options.maxClaims !== undefined
+      ? Math.max(1, Math.round((options.maxClaims * text.length) / cable.body.length))
+      : estimateClaimBudget(text);
+
+  if (chunks.length === 1) {
+    const result = await extractWithSplitting(cable, { ...options, maxClaims: budgetFor(cable.body) }, 0);
+    return { ...result, claims: normalizeTimes(groundAndReport(result.claims, cable.body), cable.date) };
+  }
+
+  console.log(`  [Claims] ${cable.body.length}-char body, extracting ${chunks.length} chunks...`);
+  const results = await Promise.all(
+    chunks.map((chunk) =>
+      extractWithSplitting(
+        { ...cable, body: chunk.text },
+        { ...options, maxClaims: budgetFor(chunk.text), part: { index: chunk.index, total: chunks.length } },
+        0
+      )
+    )
+  );
+
+  const claims = mergeClaims(results.map((r) => r.claims));
+  const extracted = results.reduce((sum, r) => sum + r.claims.length, 0);
+  if (extracted > claims.length) {
+    console.log(`  [Claims] Merged ${extracted - claims.length} duplicate claims from chunk overlaps`);
+  }
+
+  return {
+    claims: normalizeTimes(groundAndReport(claims, cable.body), cable.date),
+    response: combineResponses(results.map((r) => r.response)),
+  };
+}
+
+function groundAndReport(claims: Claim[], body: string): Claim[] {
+  const grounded = groundClaims(claims, body);
+  const ungrounded = getUngroundedClaims(grounded);
+  if (ungrounded.length > 0) {
+    console.log(`  [Claims] ${ungrounded.length} claims not found in the body: ${ungrounded.map((c) => c.claim_id).join(', ')}`);
+  }
+  return grounded;
+}
+
+function normalizeTimes(claims: Claim[], cableDate: string): Claim[] {
+  const normalized = claims.map((c) => normalizeClaimTime(c, cableDate));
+  const impossible = normalized.filter((c) => c.time_interval?.issues?.length);
+  if (impossible.length > 0) {
+    console.log(`  [Claims] ${impossible.length} claims have impossible time bounds: ${impossible.map((c) => c.claim_id).join(', ')}`);
+  }
+  return normalized;
+}
+
+/**
+ * Concatenate claims extracted from parts of a cable, folding near-identical
+ * claims (from overlapping text) into the first occurrence, and renumber
+ * them c1..cn
+ */
+export function mergeClaims(parts: Claim[][]): Claim[] {
+  const merged: Claim[] = [];
+
+  for (const claim of parts.flat()) {
+    const duplicate = merged.find((m) => wordSetSimilarity(m.claim_text, claim.claim_text) >= DUPLICATE_SIMILARITY);
+    if (duplicate) {
+      duplicate.importance = Math.max(duplicate.importance, claim.importance);
+      duplicate.entities = [...new Set([...duplicate.entities, ...claim.entities])];
+      duplicate.time_bounds = duplicate.time_bounds || claim.time_bounds;
+      duplicate.source = duplicate.source || claim.source;
+      duplicate.confidence_marker = duplicate.confidence_marker || claim.confidence_marker;
+      if (claim.supporting_quotes) {
+        duplicate.supporting_quotes = [...new Set([...(duplicate.supporting_quotes || []), ...claim.supporting_quotes])];
+      }
+    } else {
+      merged.push({ ...claim, entities: [...claim.entities] });
+    }
+  }
+
+  return merged.map((c, idx) => ({ ...c, claim_id: `c${idx + 1}` }));
+}
+
+/**
+ * Extract claims, halving the cable body whenever the response is truncated
+ */
+async function extractWithSplitting(
+  cable: Cable,
+  options: ExtractionCallOptions,
+  depth: number
+): Promise<{ claims: Claim[]; response: LLMResponse }> {
+  try {
+    return await extractClaimsOnce(cable, options);
+  } catch (error) {
+    if (!(error instanceof TruncatedResponseError) || depth >= MAX_SPLIT_DEPTH) throw error;
+
+    const halves = splitCableBody(cable.body);
+    if (!halves) throw error;
+
+    console.log(`  [Claims] Response truncated, splitting ${cable.body.length}-char body into 2 parts...`);
+    const maxClaims = Math.ceil((options.maxClaims ?? 20) / 2);
+    const [first, second] = await Promise.all([
+      extractWithSplitting({ ...cable, body: halves[0] }, { ...options, maxClaims }, depth + 1),
+      extractWithSplitting({ ...cable, body: halves[1] }, { ...options, maxClaims }, depth + 1),
+    ]);
 
-  const client = getGeminiClient();
+    // Parts are numbered independently, so renumber after merging
+    const claims = mergeClaims([first.claims, second.claims]);
+
+    return {
+      claims,
+      response: combineResponses([error.response, first.response, second.response]),
+    };
+  }
+}
+
+/**
+ * Split a body in two at the paragraph (or line, or sentence) break nearest
+ * the middle. Returns null when the body is too short to be worth splitting.
+ */
+export function splitCableBody(body: string): [string, string] | null {
+  if (body.length < MIN_SPLIT_LENGTH) return null;
+
+  const middle = body.length / 2;
+  for (const separator of ['\n\n', '\n', '. ']) {
+    let best = -1;
+    let idx = body.indexOf(separator);
+    while (idx !== -1) {
+      if (best === -1 || Math.abs(idx - middle) < Math.abs(best - middle)) best = idx;
+      idx = body.indexOf(separator, idx + 1);
+    }
+    // Only accept breaks that leave a reasonable amount on both sides
+    if (best > body.length * 0.2 && best < body.length * 0.8) {
+      const cut = best + separator.length;
+      return [body.slice(0, cut).trim(), body.slice(cut).trim()];
+    }
+  }
+
+  return null;
+}
+
+interface ExtractionCallOptions extends ClaimExtractionOptions {
+  part?: { index: number; total: number };  // Set when the body is one chunk of the cable
+}
+
+async function extractClaimsOnce(
+  cable: Cable,
+  options: ExtractionCallOptions
+): Promise<{ claims: Claim[]; response: LLMResponse }> {
+  const { maxClaims = 20, minImportance = 1, part, sample } = options;
+
+  const client = sample ? getSamplingProvider('claims', sample.temperature, sample.index) : getLLMProvider('claims');
 
   const userPrompt = `Extract atomic claims from the following diplomatic cable.
 
@@ -71,26 +255,37 @@ DATE: ${cable.date}
 FROM: ${cable.from_field || 'UNKNOWN'}
 TO: ${cable.to_field || 'UNKNOWN'}
 
+${part ? `\nThis is part ${part.index + 1} of ${part.total} of the cable body (parts overlap slightly). Extract claims from this part only.\n` : ''}
 --- CABLE BODY ---
 ${cable.body}
 --- END CABLE BODY ---
 
 Extract up to ${maxClaims} claims, focusing on those with importance >= ${minImportance}.`;
 
-  const { data, response } = await client.generateJSON<ClaimExtractionResult>(
+  const { data, response } = await generateStructured<ClaimExtractionResult>(
+    client,
     CLAIM_EXTRACTION_PROMPT,
-    userPrompt
+    userPrompt,
+    CLAIM_EXTRACTION_SCHEMA,
+    { label: 'claims' }
   );
 
   // Validate and normalize claims
-  const claims: Claim[] = data.claims.map((c, idx) => ({
-    claim_id: c.claim_id || `c${idx + 1}`,
-    claim_text: c.claim_text,
-    claim_type: validateClaimType(c.claim_type),
-    entities: c.entities || [],
-    time_bounds: c.time_bounds,
-    importance: Math.min(5, Math.max(1, c.importance || 3)),
-  }));
+  const claims: Claim[] = data.claims.map((c, idx) => {
+    const claimType = validateClaimType(c.claim_type);
+    return {
+      claim_id: c.claim_id || `c${idx + 1}`,
+      claim_text: c.claim_text,
+      claim_type: claimType,
+      entities: c.entities || [],
+      time_bounds: c.time_bounds,
+      importance: Math.min(5, Math.max(1, c.importance || 3)),
+      source: c.source?.trim() || null,
+      modality: validateModality(c.modality, claimType),
+      confidence_marker: c.confidence_marker?.trim() || null,
+      supporting_quotes: c.supporting_quotes?.filter((q) => q.trim().length > 0),
+    };
+  });
 
   return { claims, response };
 }
@@ -100,6 +295,33 @@ function validateClaimType(type: string): Claim['claim_type'] {
   return valid.includes(type) ? (type as Claim['claim_type']) : 'other';
 }
 
+/**
+ * Models that omit the modality (or invent one) get the one implied by the
+ * claim type
+ */
+function validateModality(modality: string | undefined, claimType: ClaimType): ClaimModality {
+  const valid: ClaimModality[] = ['fact', 'reported', 'assessed', 'speculative', 'planned'];
+  if (modality && valid.includes(modality as ClaimModality)) return modality as ClaimModality;
+
+  const implied: Partial<Record<ClaimType, ClaimModality>> = {
+    attribution: 'reported',
+    assessment: 'assessed',
+    plan: 'planned',
+  };
+  return implied[claimType] || 'fact';
+}
+
+/**
+ * Describe how and by whom a claim is asserted, e.g.
+ * `reported, per Minister Kao ("reportedly")`
+ */
+export function describeModality(claim: Claim): string | null {
+  if (!claim.modality) return null;
+  const by = claim.source ? `, per ${claim.source}` : '';
+  const marker = claim.confidence_marker ? ` ("${claim.confidence_marker}")` : '';
+  return `${claim.modality}${by}${marker}`;
+}
+
 /**
  * Format claims for display
  */
@@ -125,10 +347,21 @@ export function formatClaims(claims: Claim[]): string {
       if (claim.entities.length > 0) {
         lines.push(`     Entities: ${claim.entities.join(', ')}`);
       }
+      const modality = describeModality(claim);
+      if (modality) {
+        lines.push(`     Modality: ${modality}`);
+      }
+      if (claim.agreement) {
+        lines.push(`     Agreement: ${claim.agreement.runs}/${claim.agreement.samples} runs`);
+      }
       if (claim.time_bounds?.start || claim.time_bounds?.end) {
         const time = [claim.time_bounds.start, claim.time_bounds.end].filter(Boolean).join(' to ');
         lines.push(`     Time: ${time}`);
       }
+      if (claim.time_interval) {
+        const issues = claim.time_interval.issues?.length ? ` ⚠️ ${claim.time_interval.issues.join('; ')}` : '';
+        lines.push(`     Interval: ${formatInterval(claim.time_interval)}${issues}`);
+      }
     }
   }
 
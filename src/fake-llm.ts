@@ -0,0 +1,200 @@
+/**
+ * Scripted fake LLM for offline pipeline runs
+ *
+ * Serves fixture JSON through a real GeminiClient by swapping its fetch
+ * for a scripted one, so the retry and error paths in gemini.ts run
+ * exactly as they would against the live API (with short delays).
+ *
+ * Fixture file format (a single .json file, or a directory of them):
+ * {
+ *   "fixtures": [
+ *     { "stage": "claims", "doc_id": "1975NATO00670", "response": { "claims": [...] } },
+ *     { "stage": "targeted", "failures": ["rate_limit", "malformed_json"], "response": { "questions": [...] } }
+ *   ]
+ * }
+ *
+ * A fixture without doc_id matches any cable. Its failures are served in
+ * order on successive calls before the response is returned.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeminiClient } from './gemini.js';
+import { getRateLimiter } from './concurrency.js';
+import type { LLMProvider, LLMStage } from './llm-provider.js';
+
+export type FakeFailure =
+  | 'rate_limit'        // HTTP 429
+  | 'server_error'      // HTTP 500
+  | 'malformed_json'    // Truncated JSON body in the candidate
+  | 'invalid_schema'    // Valid JSON that fails the stage's schema
+  | 'empty_candidates'  // 200 OK with no candidates
+  | 'max_tokens'        // Truncated JSON with finishReason MAX_TOKENS
+  | 'timeout';          // Never responds; the client's abort fires
+
+export interface FakeFixture {
+  stage: LLMStage;
+  doc_id?: string;
+  failures?: FakeFailure[];
+  response?: unknown;
+}
+
+export interface FakeCall {
+  stage: LLMStage;
+  doc_id: string | null;
+  outcome: FakeFailure | 'ok' | 'no_fixture';
+}
+
+interface FixtureState {
+  fixture: FakeFixture;
+  failuresServed: number;
+}
+
+let fixtures: FixtureState[] | null = null;
+const calls: FakeCall[] = [];
+
+// Claim texts served per doc_id, used to recognise which cable a later
+// question or validation prompt belongs to
+const claimTextsByDoc = new Map<string, string[]>();
+
+/**
+ * Load fixtures from a JSON file or a directory of JSON files
+ */
+export function configureFakeLLM(fixturesPath: string): void {
+  const files = fs.statSync(fixturesPath).isDirectory()
+    ? fs.readdirSync(fixturesPath)
+        .filter((f) => f.endsWith('.json'))
+        .sort()
+        .map((f) => path.join(fixturesPath, f))
+    : [fixturesPath];
+
+  fixtures = [];
+  for (const file of files) {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf-8')) as { fixtures?: FakeFixture[] };
+    for (const fixture of parsed.fixtures || []) {
+      fixtures.push({ fixture, failuresServed: 0 });
+    }
+  }
+
+  calls.length = 0;
+  claimTextsByDoc.clear();
+}
+
+/**
+ * Every call served so far, in order
+ */
+export function getFakeCalls(): FakeCall[] {
+  return [...calls];
+}
+
+export function createFakeProvider(stage: LLMStage, temperature?: number): LLMProvider {
+  if (!fixtures) {
+    throw new Error('Fake LLM provider requires fixtures (use --fake-llm <path>)');
+  }
+
+  return new GeminiClient({
+    apiKey: 'fake',
+    model: 'fake',
+    temperature,
+    fetchFn: createFakeFetch(stage),
+    retryBaseDelayMs: 5,
+    requestTimeoutMs: 200,
+    limiter: getRateLimiter(),
+  });
+}
+
+function createFakeFetch(stage: LLMStage): typeof fetch {
+  return async (_input, init) => {
+    const request = JSON.parse(String(init?.body)) as {
+      contents: Array<{ parts: Array<{ text: string }> }>;
+    };
+    const userPrompt = request.contents[0]?.parts[0]?.text || '';
+    const docId = resolveDocId(userPrompt);
+
+    const state = findFixture(stage, docId);
+    if (!state) {
+      calls.push({ stage, doc_id: docId, outcome: 'no_fixture' });
+      return new Response(
+        JSON.stringify({ error: { message: `No fake fixture for stage "${stage}" (doc ${docId || 'unknown'})` } }),
+        { status: 400 }
+      );
+    }
+
+    const failures = state.fixture.failures || [];
+    if (state.failuresServed < failures.length) {
+      const failure = failures[state.failuresServed++];
+      calls.push({ stage, doc_id: docId, outcome: failure });
+      return serveFailure(failure, init?.signal);
+    }
+
+    if (stage === 'claims' && docId) {
+      const claims = (state.fixture.response as { claims?: Array<{ claim_text?: string }> })?.claims || [];
+      claimTextsByDoc.set(docId, claims.map((c) => c.claim_text || '').filter(Boolean));
+    }
+
+    calls.push({ stage, doc_id: docId, outcome: 'ok' });
+    const text = JSON.stringify(state.fixture.response ?? {});
+    return geminiResponse([{ content: { parts: [{ text }] }, finishReason: 'STOP' }], userPrompt, text);
+  };
+}
+
+function resolveDocId(userPrompt: string): string | null {
+  const cableIdMatch = userPrompt.match(/CABLE ID: (\S+)/);
+  if (cableIdMatch) return cableIdMatch[1];
+
+  for (const [docId, claimTexts] of claimTextsByDoc) {
+    if (claimTexts.some((text) => userPrompt.includes(text))) return docId;
+  }
+  return null;
+}
+
+function findFixture(stage: LLMStage, docId: string | null): FixtureState | undefined {
+  const candidates = fixtures!.filter((s) => s.fixture.stage === stage);
+  return (
+    candidates.find((s) => docId !== null && s.fixture.doc_id === docId) ||
+    candidates.find((s) => !s.fixture.doc_id)
+  );
+}
+
+function serveFailure(failure: FakeFailure, signal?: AbortSignal | null): Promise<Response> {
+  switch (failure) {
+    case 'rate_limit':
+      return Promise.resolve(new Response('{"error":{"code":429,"message":"Resource exhausted"}}', { status: 429 }));
+    case 'server_error':
+      return Promise.resolve(new Response('{"error":{"code":500,"message":"Internal error"}}', { status: 500 }));
+    case 'malformed_json':
+      return Promise.resolve(
+        geminiResponse([{ content: { parts: [{ text: '{"claims": [{"claim_id": "c1", "claim_te' }] }, finishReason: 'STOP' }], '', '')
+      );
+    case 'invalid_schema':
+      return Promise.resolve(geminiResponse([{ content: { parts: [{ text: '{}' }] }, finishReason: 'STOP' }], '', '{}'));
+    case 'empty_candidates':
+      return Promise.resolve(geminiResponse([], '', ''));
+    case 'max_tokens':
+      return Promise.resolve(
+        geminiResponse([{ content: { parts: [{ text: '{"claims": [{"claim_id": "c1", "claim_te' }] }, finishReason: 'MAX_TOKENS' }], '', '')
+      );
+    case 'timeout':
+      return new Promise((_, reject) => {
+        signal?.addEventListener('abort', () => reject(new Error('The operation was aborted (fake timeout)')));
+      });
+  }
+}
+
+function geminiResponse(candidates: unknown[], prompt: string, completion: string): Response {
+  // Rough 4-chars-per-token estimate keeps cost accounting non-zero and deterministic
+  const promptTokenCount = Math.ceil(prompt.length / 4);
+  const candidatesTokenCount = Math.ceil(completion.length / 4);
+
+  return new Response(
+    JSON.stringify({
+      candidates,
+      usageMetadata: {
+        promptTokenCount,
+        candidatesTokenCount,
+        totalTokenCount: promptTokenCount + candidatesTokenCount,
+      },
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
@@ -2,11 +2,13 @@
  * Gemini API client with JSON mode support
  */
 
+import { TruncatedResponseError } from './llm-errors.js';
+import { computeCost } from './pricing.js';
+import { estimateTokens, retryDelay, RETRY_BASE_DELAY_MS } from './concurrency.js';
+import type { RateLimiter } from './concurrency.js';
+import type { LLMProvider } from './llm-provider.js';
 import type { LLMResponse } from './types.js';
 
-// Pricing for Gemini 2.5 Flash
-const INPUT_COST_PER_MILLION = 0.15;
-const OUTPUT_COST_PER_MILLION = 0.60;
 const MAX_RETRIES = 3;
 const REQUEST_TIMEOUT_MS = 120000;
 
@@ -15,19 +17,33 @@ export interface GeminiConfig {
   model?: string;
   temperature?: number;
   maxOutputTokens?: number;
+  // Overrides for offline testing (see fake-llm.ts)
+  fetchFn?: typeof fetch;
+  retryBaseDelayMs?: number;
+  requestTimeoutMs?: number;
+  limiter?: RateLimiter;  // Shared limiter; 429s then pause every caller
 }
 
-export class GeminiClient {
+export class GeminiClient implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  readonly temperature: number;
   private apiKey: string;
-  private model: string;
-  private temperature: number;
   private maxOutputTokens: number;
+  private fetchFn: typeof fetch;
+  private retryBaseDelayMs: number;
+  private requestTimeoutMs: number;
+  private limiter?: RateLimiter;
 
   constructor(config: GeminiConfig) {
     this.apiKey = config.apiKey;
     this.model = config.model || 'gemini-2.5-flash';
     this.temperature = config.temperature ?? 0.3; // Lower for more deterministic output
     this.maxOutputTokens = config.maxOutputTokens || 16384;
+    this.fetchFn = config.fetchFn || fetch;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? RETRY_BASE_DELAY_MS;
+    this.requestTimeoutMs = config.requestTimeoutMs ?? REQUEST_TIMEOUT_MS;
+    this.limiter = config.limiter;
   }
 
   async generateJSON<T>(
@@ -62,16 +78,20 @@ export class GeminiClient {
 
     let lastError: Error | null = null;
 
+    const estimatedTokens = estimateTokens(systemPrompt, userPrompt);
+
     for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      await this.limiter?.acquire(estimatedTokens);
+
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      const timeoutId = setTimeout(() => controller.abort(), this.requestTimeoutMs);
 
       try {
         if (attempt > 0) {
           console.log(`  [Gemini] Retry ${attempt}/${MAX_RETRIES}...`);
         }
 
-        const response = await fetch(url, {
+        const response = await this.fetchFn(url, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(requestBody),
@@ -83,14 +103,22 @@ export class GeminiClient {
         if (!response.ok) {
           const errorText = await response.text();
           console.error(`  [Gemini] Error ${response.status}: ${errorText.slice(0, 200)}`);
+          // Kept for the final error if the retries run out
+          lastError = new Error(`Gemini API error (${response.status}): ${errorText}`);
 
+          if (response.status === 429 && this.limiter) {
+            const delay = retryDelay(attempt, this.retryBaseDelayMs);
+            console.log(`  [Gemini] Rate limited, pausing all requests for ${delay}ms...`);
+            this.limiter.backoff(delay);
+            continue;
+          }
           if (response.status === 429 || response.status >= 500) {
-            const delay = Math.min(15000 * Math.pow(2, attempt), 120000);
+            const delay = retryDelay(attempt, this.retryBaseDelayMs);
             console.log(`  [Gemini] Rate limited, waiting ${delay}ms...`);
             await new Promise((r) => setTimeout(r, delay));
             continue;
           }
-          throw new Error(`Gemini API error (${response.status}): ${errorText}`);
+          throw lastError;
         }
 
         const data = (await response.json()) as Record<string, unknown>;
@@ -107,9 +135,8 @@ export class GeminiClient {
         const completionTokens = usage.candidatesTokenCount || 0;
         const totalTokens = usage.totalTokenCount || promptTokens + completionTokens;
 
-        const cost =
-          (promptTokens / 1_000_000) * INPUT_COST_PER_MILLION +
-          (completionTokens / 1_000_000) * OUTPUT_COST_PER_MILLION;
+        const cost = computeCost(this.model, promptTokens, completionTokens);
+        this.limiter?.settle(estimatedTokens, totalTokens);
 
         const llmResponse: LLMResponse = {
           content,
@@ -119,16 +146,22 @@ export class GeminiClient {
           cost_usd: cost,
         };
 
+        // A MAX_TOKENS stop means the JSON is cut off; don't retry the same request
+        if (candidates?.[0]?.finishReason === 'MAX_TOKENS') {
+          throw new TruncatedResponseError('Gemini', llmResponse);
+        }
+
         // Parse JSON
         const parsed = JSON.parse(content) as T;
 
         return { data: parsed, response: llmResponse };
       } catch (error) {
         clearTimeout(timeoutId);
+        if (error instanceof TruncatedResponseError) throw error;
         lastError = error instanceof Error ? error : new Error(String(error));
 
         if (attempt < MAX_RETRIES) {
-          const delay = Math.min(15000 * Math.pow(2, attempt), 120000);
+          const delay = retryDelay(attempt, this.retryBaseDelayMs);
           console.log(`  [Gemini] Error: ${lastError.message.slice(0, 100)}, retrying in ${delay}ms...`);
           await new Promise((r) => setTimeout(r, delay));
         }
@@ -138,17 +171,3 @@ export class GeminiClient {
     throw lastError || new Error('Gemini request failed');
   }
 }
-
-// Singleton for convenience
-let defaultClient: GeminiClient | null = null;
-
-export function getGeminiClient(): GeminiClient {
-  if (!defaultClient) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is required');
-    }
-    defaultClient = new GeminiClient({ apiKey });
-  }
-  return defaultClient;
-}
@@ -1,13 +1,35 @@
 /**
  * Question generation for claims
  *
- * Two styles of questions:
+ * Styles of questions:
  * 1. TARGETED - Directly probes a specific claim (factoid-style)
  * 2. CONTEXTUAL - Asks about broader situation that might reveal the claim
+ * 3. THEMATIC - Asks about patterns across the domain
+ * 4. MULTI-HOP - Can only be answered by combining claims that share an
+ *    entity or a time period (mosaic), with one sub-question per claim
  */
 
-import { getGeminiClient } from './gemini.js';
-import type { Claim, Question, QuestionGenerationResult, LLMResponse, Cable, QuestionStyle } from './types.js';
+import { getLLMProvider } from './llm-provider.js';
+import { TruncatedResponseError } from './llm-errors.js';
+import { questionGenerationSchema } from './schemas.js';
+import { combineResponses, generateStructured } from './structured-output.js';
+import { describeTimeWindow, intervalsOverlap } from './temporal.js';
+import { describeModality } from './extract-claims.js';
+import { formatRelation, groupRelatedClaims, relationsAmong } from './claim-relations.js';
+import { withReferenceAnswers } from './reference-answers.js';
+import { getEntityRegistry } from './entity-registry.js';
+import { isGenericTerm } from './leakage-checker.js';
+import type {
+  Claim,
+  Question,
+  QuestionGenerationResult,
+  LLMResponse,
+  LLMStage,
+  Cable,
+  QuestionStyle,
+  TimeInterval,
+  ClaimRelation,
+} from './types.js';
 
 // =============================================================================
 // Targeted Questions (Factoid-style)
@@ -23,6 +45,8 @@ CRITICAL RULES:
 3. Do NOT use unique identifiers (full names, exact codenames, cable IDs)
 4. Do NOT use exact dates or numbers (use ranges: "early 1975", "approximately 60,000")
 5. The question should directly target the claim's core information
+6. For reported, assessed and speculative claims, do NOT name the source or repeat its hedge words; describe the source generically ("a senior defense official", "the embassy") or leave it out
+7. Do NOT reveal the stance of an assessment or prediction; ask about the outlook, not whether it holds ("How did observers view the prospects for the talks?", not "Why were the talks expected to fail?")
 
 GOOD TARGETED QUESTIONS:
 - "What specific concerns did Western European nations raise about phased force reductions?"
@@ -74,6 +98,7 @@ GOOD CONTEXTUAL QUESTIONS:
 BAD CONTEXTUAL QUESTIONS (too specific):
 - "What did the U.S. Mission recommend about the Vienna proposal?" (too targeted)
 - "What percentage reduction was proposed for FRG air manpower?" (factoid, not contextual)
+- "What did Minister Kao say about tank production?" (names a claim's source)
 
 OUTPUT FORMAT: Return ONLY valid JSON:
 {
@@ -131,6 +156,45 @@ OUTPUT FORMAT: Return ONLY valid JSON:
   ]
 }`;
 
+// =============================================================================
+// Multi-hop Questions (Mosaic)
+// =============================================================================
+
+const MULTI_HOP_QUESTION_PROMPT = `You write MULTI-HOP retrieval questions that can only be answered by combining two or more claims from a diplomatic cable.
+
+This is mosaic theory made explicit: no single claim answers the question, but the claims together do. Each question comes with its decomposition into sub-questions, one per claim, in the order an analyst would ask them.
+
+RULES:
+1. Build each question on the LINKS given: claims that share an actor or a time period
+2. The question must need every claim it targets; drop a claim if the question can be answered without it
+3. Each sub-question asks for the information in exactly one claim (claim_id), and names no other claim's answer
+4. Do NOT include any answer in the question or sub-questions, copy distinctive phrases, or use exact names, dates or numbers
+5. Refer to the linking actor or period generically ("the same official", "that spring")
+
+GOOD MULTI-HOP QUESTIONS:
+- "What did the defense official who announced the new production line later say about its export prospects?"
+  Sub-questions: "Which official announced a new weapons production line in early 1975?" / "What did that official say about exporting its output?"
+- "How did the allied response to the reduction proposal change after the delegation's spring consultations?"
+
+OUTPUT FORMAT: Return ONLY valid JSON:
+{
+  "questions": [
+    {
+      "question_id": "m1",
+      "targets_claim_ids": ["c1", "c4"],
+      "question_text": "...",
+      "question_style": "multi_hop",
+      "answer_type": "who|what|when|where|why|how|numeric|list",
+      "allowed_hints": ["time_window"],
+      "banned_terms": ["term1"],
+      "sub_questions": [
+        { "claim_id": "c1", "question_text": "...", "answer_type": "who" },
+        { "claim_id": "c4", "question_text": "...", "answer_type": "what" }
+      ]
+    }
+  ]
+}`;
+
 // =============================================================================
 // Generation Functions
 // =============================================================================
@@ -140,7 +204,9 @@ export interface QuestionGenerationOptions {
   questionsPerClaim?: number;  // For targeted questions
   contextualCount?: number;    // Number of contextual questions
   thematicCount?: number;      // Number of thematic questions
+  multiHopCount?: number;      // Number of multi-hop questions
   cableContext?: Cable;
+  relations?: ClaimRelation[]; // Claim relation graph, for grouping targets
 }
 
 /**
@@ -149,76 +215,159 @@ export interface QuestionGenerationOptions {
 export async function generateQuestions(
   claims: Claim[],
   options: QuestionGenerationOptions = {}
-): Promise<{ questions: Question[]; response: LLMResponse }> {
+): Promise<{
+  questions: Question[];
+  response: LLMResponse;
+  styleResponses: Partial<Record<QuestionStyle, LLMResponse>>;
+}> {
   const {
     styles = ['targeted', 'contextual', 'thematic'],
     questionsPerClaim = 1,
     contextualCount = 5,
     thematicCount = 3,
+    multiHopCount = 3,
     cableContext,
+    relations,
   } = options;
 
-  const allQuestions: Question[] = [];
-  let totalTokens = 0;
-  let totalCost = 0;
-
-  // Generate targeted questions
-  if (styles.includes('targeted')) {
-    const { questions, response } = await generateTargetedQuestions(claims, {
-      questionsPerClaim,
-      cableContext,
-    });
-    allQuestions.push(...questions);
-    totalTokens += response.tokens;
-    totalCost += response.cost_usd;
-  }
+  const generators: Record<QuestionStyle, () => Promise<{ questions: Question[]; response: LLMResponse }>> = {
+    targeted: () =>
+      generateInBatches(claims, 't', (batch) =>
+        generateTargetedQuestions(batch, {
+          questionsPerClaim,
+          cableContext,
+        })
+      ),
+    contextual: () =>
+      generateInBatches(claims, 'x', (batch, share) =>
+        generateContextualQuestions(batch, {
+          count: Math.max(1, Math.round(contextualCount * share)),
+          cableContext,
+          relations,
+        })
+      ),
+    thematic: () =>
+      generateInBatches(claims, 'th', (batch, share) =>
+        generateThematicQuestions(batch, {
+          count: Math.max(1, Math.round(thematicCount * share)),
+          cableContext,
+          relations,
+        })
+      ),
+    multi_hop: () =>
+      generateInBatches(claims, 'm', (batch, share) =>
+        generateMultiHopQuestions(batch, {
+          count: Math.max(1, Math.round(multiHopCount * share)),
+          cableContext,
+        })
+      ),
+  };
 
-  // Generate contextual questions
-  if (styles.includes('contextual')) {
-    const { questions, response } = await generateContextualQuestions(claims, {
-      count: contextualCount,
-      cableContext,
-    });
-    allQuestions.push(...questions);
-    totalTokens += response.tokens;
-    totalCost += response.cost_usd;
-  }
+  // The styles are independent, so generate them concurrently
+  const order: QuestionStyle[] = ['targeted', 'contextual', 'thematic', 'multi_hop'];
+  const selected = order.filter((style) => styles.includes(style));
+  const results = await Promise.all(selected.map((style) => generators[style]()));
 
-  // Generate thematic questions
-  if (styles.includes('thematic')) {
-    const { questions, response } = await generateThematicQuestions(claims, {
-      count: thematicCount,
-      cableContext,
-    });
-    allQuestions.push(...questions);
-    totalTokens += response.tokens;
-    totalCost += response.cost_usd;
+  const allQuestions: Question[] = [];
+  const styleResponses: Partial<Record<QuestionStyle, LLMResponse>> = {};
+  selected.forEach((style, idx) => {
+    allQuestions.push(...withClaimHints(results[idx].questions, claims));
+    styleResponses[style] = results[idx].response;
+  });
+
+  const known = withKnownTargets(allQuestions, claims);
+  if (known.length < allQuestions.length) {
+    console.log(`  [Questions] Dropped ${allQuestions.length - known.length} questions targeting unknown claims`);
   }
 
   return {
-    questions: allQuestions,
-    response: {
-      content: '',
-      tokens: totalTokens,
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      cost_usd: totalCost,
-    },
+    questions: withReferenceAnswers(known, claims),
+    response: combineResponses(Object.values(styleResponses)),
+    styleResponses,
   };
 }
 
+/**
+ * Targeted questions for claims that have no usable question yet (see
+ * coverage.ts). The earlier questions for them are shown so the new ones
+ * take a different angle; IDs are left for the caller to assign.
+ */
+export async function generateFollowUpQuestions(
+  claims: Claim[],
+  previousQuestions: Question[],
+  cableContext?: Cable
+): Promise<{ questions: Question[]; response: LLMResponse }> {
+  const { questions, response } = await generateInBatches(claims, 'f', (batch) => {
+    const ids = new Set(batch.map((c) => c.claim_id));
+    const previous = previousQuestions.filter((q) => (q.targets_claim_ids || [q.targets_claim_id]).some((id) => ids.has(id)));
+    return generateTargetedQuestions(batch, { cableContext, previousQuestions: previous, stage: 'coverage' });
+  });
+
+  return { questions: withReferenceAnswers(withKnownTargets(withClaimHints(questions, claims), claims), claims), response };
+}
+
+/**
+ * Run a generator over the claims, halving the claim list whenever the
+ * response is truncated. `share` is the fraction of the claims in the
+ * batch, so count-based generators can scale their request down.
+ */
+async function generateInBatches(
+  claims: Claim[],
+  idPrefix: string,
+  generate: (batch: Claim[], share: number) => Promise<{ questions: Question[]; response: LLMResponse }>,
+  share = 1
+): Promise<{ questions: Question[]; response: LLMResponse }> {
+  try {
+    return await generate(claims, share);
+  } catch (error) {
+    if (!(error instanceof TruncatedResponseError) || claims.length < 2) throw error;
+
+    console.log(`  [Questions] Response truncated, splitting ${claims.length} claims into 2 batches...`);
+    const mid = Math.ceil(claims.length / 2);
+    const [first, second] = await Promise.all([
+      generateInBatches(claims.slice(0, mid), idPrefix, generate, share / 2),
+      generateInBatches(claims.slice(mid), idPrefix, generate, share / 2),
+    ]);
+
+    // Batches number their questions independently, so renumber after
+    // merging, and multi_hop sub-questions along with their parent
+    const questions = [...first.questions, ...second.questions].map((q, idx) => {
+      const questionId = `${idPrefix}${idx + 1}`;
+      return {
+        ...q,
+        question_id: questionId,
+        ...(q.sub_questions
+          ? { sub_questions: q.sub_questions.map((s, step) => ({ ...s, question_id: `${questionId}.${step + 1}` })) }
+          : {}),
+      };
+    });
+
+    return {
+      questions,
+      response: combineResponses([error.response, first.response, second.response]),
+    };
+  }
+}
+
 /**
  * Generate targeted (factoid) questions - one per claim
  */
 async function generateTargetedQuestions(
   claims: Claim[],
-  options: { questionsPerClaim?: number; cableContext?: Cable }
+  options: { questionsPerClaim?: number; cableContext?: Cable; previousQuestions?: Question[]; stage?: LLMStage }
 ): Promise<{ questions: Question[]; response: LLMResponse }> {
-  const { questionsPerClaim = 1, cableContext } = options;
-  const client = getGeminiClient();
+  const { questionsPerClaim = 1, cableContext, previousQuestions = [], stage = 'targeted' } = options;
+  const client = getLLMProvider(stage);
 
   const claimsText = formatClaimsForPrompt(claims);
   const contextInfo = formatCableContext(cableContext);
+  const previousInfo =
+    previousQuestions.length > 0
+      ? `
+EARLIER QUESTIONS (these leaked their answers; take a different angle):
+${previousQuestions.map((q) => `- ${(q.targets_claim_ids || [q.targets_claim_id]).join(', ')}: "${q.question_text}"`).join('\n')}
+`
+      : '';
 
   const userPrompt = `Generate ${questionsPerClaim} TARGETED question(s) per claim.
 
@@ -226,12 +375,15 @@ ${contextInfo}
 
 CLAIMS TO TARGET:
 ${claimsText}
-
+${previousInfo}
 Each question should directly probe the claim's core information without giving away the answer.`;
 
-  const { data, response } = await client.generateJSON<QuestionGenerationResult>(
+  const { data, response } = await generateStructured<QuestionGenerationResult>(
+    client,
     TARGETED_QUESTION_PROMPT,
-    userPrompt
+    userPrompt,
+    questionGenerationSchema('targeted'),
+    { label: stage === 'targeted' ? 'targeted questions' : `${stage} questions` }
   );
 
   const questions: Question[] = data.questions.map((q, idx) => ({
@@ -254,15 +406,16 @@ Each question should directly probe the claim's core information without giving
  */
 async function generateContextualQuestions(
   claims: Claim[],
-  options: { count?: number; cableContext?: Cable }
+  options: { count?: number; cableContext?: Cable; relations?: ClaimRelation[] }
 ): Promise<{ questions: Question[]; response: LLMResponse }> {
-  const { count = 5, cableContext } = options;
-  const client = getGeminiClient();
+  const { count = 5, cableContext, relations = [] } = options;
+  const client = getLLMProvider('contextual');
 
   // Extract key themes from claims
   const themes = extractThemes(claims);
   const claimsText = formatClaimsForPrompt(claims);
   const contextInfo = formatCableContext(cableContext);
+  const groups = groupRelatedClaims(claims, relations);
 
   const userPrompt = `Generate ${count} CONTEXTUAL questions that explore the broader situation.
 
@@ -279,12 +432,15 @@ Generate broad, exploratory questions that:
 2. Could retrieve documents that INDIRECTLY reveal the claims
 3. Sound like questions an analyst would ask to understand context
 4. Don't give away that you're looking for specific information
-
+${formatClaimGroups(groups, relations)}
 For each question, list which claims it MIGHT help reveal (targets_claim_ids).`;
 
-  const { data, response } = await client.generateJSON<QuestionGenerationResult>(
+  const { data, response } = await generateStructured<QuestionGenerationResult>(
+    client,
     CONTEXTUAL_QUESTION_PROMPT,
-    userPrompt
+    userPrompt,
+    questionGenerationSchema('contextual'),
+    { label: 'contextual questions' }
   );
 
   const questions: Question[] = data.questions.map((q, idx) => ({
@@ -299,7 +455,7 @@ For each question, list which claims it MIGHT help reveal (targets_claim_ids).`;
     leakage_score: 0,
   }));
 
-  return { questions, response };
+  return { questions: alignToRelatedClaims(questions, claims, relations), response };
 }
 
 /**
@@ -307,14 +463,15 @@ For each question, list which claims it MIGHT help reveal (targets_claim_ids).`;
  */
 async function generateThematicQuestions(
   claims: Claim[],
-  options: { count?: number; cableContext?: Cable }
+  options: { count?: number; cableContext?: Cable; relations?: ClaimRelation[] }
 ): Promise<{ questions: Question[]; response: LLMResponse }> {
-  const { count = 3, cableContext } = options;
-  const client = getGeminiClient();
+  const { count = 3, cableContext, relations = [] } = options;
+  const client = getLLMProvider('thematic');
 
   const themes = extractThemes(claims);
   const claimsText = formatClaimsForPrompt(claims);
   const contextInfo = formatCableContext(cableContext);
+  const groups = groupRelatedClaims(claims, relations);
 
   const userPrompt = `Generate ${count} THEMATIC questions about patterns and relationships.
 
@@ -331,12 +488,15 @@ Generate abstract, pattern-seeking questions that:
 2. Cast a wide net across the diplomatic corpus
 3. Could retrieve diverse documents that collectively illuminate the situation
 4. Are general enough to apply to multiple similar situations
-
+${formatClaimGroups(groups, relations)}
 For each question, list which claims it MIGHT help contextualize (targets_claim_ids).`;
 
-  const { data, response } = await client.generateJSON<QuestionGenerationResult>(
+  const { data, response } = await generateStructured<QuestionGenerationResult>(
+    client,
     THEMATIC_QUESTION_PROMPT,
-    userPrompt
+    userPrompt,
+    questionGenerationSchema('thematic'),
+    { label: 'thematic questions' }
   );
 
   const questions: Question[] = data.questions.map((q, idx) => ({
@@ -351,6 +511,73 @@ For each question, list which claims it MIGHT help contextualize (targets_claim_
     leakage_score: 0,
   }));
 
+  return { questions: alignToRelatedClaims(questions, claims, relations), response };
+}
+
+/**
+ * Generate multi-hop questions over the entity and time links between
+ * claims. Without any links there is nothing to combine, so no call is made.
+ */
+async function generateMultiHopQuestions(
+  claims: Claim[],
+  options: { count?: number; cableContext?: Cable }
+): Promise<{ questions: Question[]; response: LLMResponse }> {
+  const { count = 3, cableContext } = options;
+  const links = findClaimLinks(claims);
+  if (links.length === 0) {
+    console.log('  [Questions] No entity or time links between claims; skipping multi-hop questions');
+    return { questions: [], response: { content: '', tokens: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 } };
+  }
+
+  const client = getLLMProvider('multi_hop');
+  const claimsText = formatClaimsForPrompt(claims);
+  const contextInfo = formatCableContext(cableContext);
+
+  const userPrompt = `Generate up to ${count} MULTI-HOP questions, each needing two or more claims.
+
+${contextInfo}
+
+CLAIMS:
+${claimsText}
+
+LINKS BETWEEN CLAIMS (build each question on one or more of these; chains of links may join three claims):
+${links.map((l) => `- ${l.claim_ids.join(' + ')}: ${l.kind === 'entity' ? `both involve ${l.via}` : `both in ${l.via}`}`).join('\n')}
+
+List the claims each question needs in targets_claim_ids, and give one sub-question per claim.`;
+
+  const { data, response } = await generateStructured<QuestionGenerationResult>(
+    client,
+    MULTI_HOP_QUESTION_PROMPT,
+    userPrompt,
+    questionGenerationSchema('multi_hop'),
+    { label: 'multi-hop questions' }
+  );
+
+  const questions: Question[] = data.questions.map((q, idx) => {
+    const questionId = q.question_id || `m${idx + 1}`;
+    const subQuestions = (q.sub_questions || []).map((s, step) => ({
+      question_id: `${questionId}.${step + 1}`,
+      claim_id: s.claim_id,
+      question_text: s.question_text,
+      answer_type: validateAnswerType(s.answer_type),
+      leakage_score: 0,
+    }));
+    // The sub-questions say which claims the question really needs
+    const targets = [...new Set(subQuestions.map((s) => s.claim_id))];
+    return {
+      question_id: questionId,
+      targets_claim_id: targets[0] || q.targets_claim_ids?.[0] || 'general',
+      targets_claim_ids: targets,
+      question_text: q.question_text,
+      question_style: 'multi_hop' as QuestionStyle,
+      answer_type: validateAnswerType(q.answer_type),
+      allowed_hints: q.allowed_hints || [],
+      banned_terms: q.banned_terms || [],
+      leakage_score: 0,
+      sub_questions: subQuestions,
+    };
+  });
+
   return { questions, response };
 }
 
@@ -358,13 +585,77 @@ For each question, list which claims it MIGHT help contextualize (targets_claim_
 // Helper Functions
 // =============================================================================
 
+interface ClaimLink {
+  claim_ids: [string, string];
+  kind: 'entity' | 'time';
+  via: string;  // The shared entity, or the period both fall in
+}
+
+// Links offered to the model, most important pairs first
+const MAX_CLAIM_LINKS = 20;
+
+/**
+ * Pairs of claims a multi-hop question can join: those naming the same
+ * entity (by any alias the registry knows, generic actors aside), and
+ * those whose time intervals overlap at month precision or finer
+ */
+function findClaimLinks(claims: Claim[]): ClaimLink[] {
+  const registry = getEntityRegistry();
+  const entityNames = claims.map((c) => {
+    const names = new Map<string, string>();
+    for (const mention of c.entities) {
+      if (isGenericTerm(mention)) continue;
+      const record = registry.lookup(mention);
+      names.set(record?.id || mention.toLowerCase(), record?.name || mention);
+    }
+    return names;
+  });
+
+  const links: Array<ClaimLink & { weight: number }> = [];
+  for (let i = 0; i < claims.length; i++) {
+    for (let j = i + 1; j < claims.length; j++) {
+      const a = claims[i];
+      const b = claims[j];
+      const pair: [string, string] = [a.claim_id, b.claim_id];
+      const weight = a.importance + b.importance;
+
+      const shared = [...entityNames[i].keys()].find((key) => entityNames[j].has(key));
+      if (shared) {
+        links.push({ claim_ids: pair, kind: 'entity', via: entityNames[i].get(shared)!, weight });
+        continue;
+      }
+
+      const [x, y] = [a.time_interval, b.time_interval];
+      if (
+        x?.start && y?.start && !x.issues?.length && !y.issues?.length &&
+        x.granularity !== 'year' && y.granularity !== 'year' && intervalsOverlap(x, y)
+      ) {
+        links.push({ claim_ids: pair, kind: 'time', via: describeTimeWindow([x, y])!, weight });
+      }
+    }
+  }
+
+  return links
+    .sort((p, q) => q.weight - p.weight)
+    .slice(0, MAX_CLAIM_LINKS)
+    .map(({ weight, ...link }) => link);
+}
+
 function formatClaimsForPrompt(claims: Claim[]): string {
   return claims
     .map((c) => {
       let text = `${c.claim_id}: "${c.claim_text}"`;
       text += `\n   Type: ${c.claim_type}`;
       text += `\n   Entities: ${c.entities.join(', ') || 'none'}`;
-      if (c.time_bounds?.start || c.time_bounds?.end) {
+      const modality = describeModality(c);
+      if (modality) {
+        text += `\n   Asserted as: ${modality}`;
+      }
+      // Only the coarse window, so exact dates don't end up in questions
+      const window = c.time_interval && describeTimeWindow([c.time_interval]);
+      if (window) {
+        text += `\n   Time window: ${window}`;
+      } else if (c.time_bounds?.start || c.time_bounds?.end) {
         text += `\n   Time: ${c.time_bounds.start || '?'} to ${c.time_bounds.end || '?'}`;
       }
       text += `\n   Importance: ${c.importance}/5`;
@@ -373,6 +664,89 @@ function formatClaimsForPrompt(claims: Claim[]): string {
     .join('\n\n');
 }
 
+/**
+ * List the related claim groups for the prompt (empty without relations)
+ */
+function formatClaimGroups(groups: Claim[][], relations: ClaimRelation[]): string {
+  if (groups.length === 0) return '';
+
+  const lines = groups.map((group) => {
+    const links = relationsAmong(relations, group).map(formatRelation).join('; ');
+    return `- ${group.map((c) => c.claim_id).join(', ')}: ${links}`;
+  });
+  return `
+RELATED CLAIM GROUPS (the cable connects these claims; aim each question at one whole group):
+${lines.join('\n')}
+`;
+}
+
+/**
+ * Widen each question's targets to the claims directly related to them, so
+ * targets_claim_ids follow the cable's own connections rather than the
+ * model's guess. Only one hop: a chain of relations would otherwise pull
+ * in most of the cable.
+ */
+function alignToRelatedClaims(questions: Question[], claims: Claim[], relations: ClaimRelation[]): Question[] {
+  const links = relationsAmong(relations, claims);
+  if (links.length === 0) return questions;
+
+  return questions.map((q) => {
+    const targets = q.targets_claim_ids || [q.targets_claim_id];
+    const widened = new Set(targets);
+    for (const r of links) {
+      if (targets.includes(r.from)) widened.add(r.to);
+      if (targets.includes(r.to)) widened.add(r.from);
+    }
+    if (widened.size === targets.length) return q;
+    return { ...q, targets_claim_ids: [...widened] };
+  });
+}
+
+/**
+ * Remove target IDs that aren't among the claims (the model can invent
+ * them), and drop questions left with no target at all. Multi-hop
+ * questions also lose sub-questions for unknown claims, and are dropped
+ * when fewer than two claims remain.
+ */
+export function withKnownTargets(questions: Question[], claims: Claim[]): Question[] {
+  const ids = new Set(claims.map((c) => c.claim_id));
+  return questions.flatMap((q) => {
+    const targets = (q.targets_claim_ids || [q.targets_claim_id]).filter((id) => ids.has(id));
+    if (targets.length === 0) return [];
+    const known = { ...q, targets_claim_id: ids.has(q.targets_claim_id) ? q.targets_claim_id : targets[0], targets_claim_ids: targets };
+    if (q.question_style !== 'multi_hop') return [known];
+
+    const subQuestions = (q.sub_questions || []).filter((s) => ids.has(s.claim_id));
+    if (new Set(subQuestions.map((s) => s.claim_id)).size < 2) return [];
+    return [{ ...known, sub_questions: subQuestions }];
+  });
+}
+
+/**
+ * Fill in what the target claims say about a question's hints: the coarse
+ * time window (for questions that may hint at time) and the sources of
+ * reported, assessed and speculative claims, which are banned terms
+ */
+function withClaimHints(questions: Question[], claims: Claim[]): Question[] {
+  const claimMap = new Map(claims.map((c) => [c.claim_id, c]));
+  return questions.map((q) => {
+    const targets = (q.targets_claim_ids || [q.targets_claim_id])
+      .map((id) => claimMap.get(id))
+      .filter((c): c is Claim => c !== undefined);
+
+    const sources = targets
+      .filter((c) => c.source && c.modality && c.modality !== 'fact' && c.modality !== 'planned')
+      .map((c) => c.source!)
+      .filter((s) => !q.banned_terms.some((t) => t.toLowerCase() === s.toLowerCase()));
+    const updated = sources.length > 0 ? { ...q, banned_terms: [...q.banned_terms, ...new Set(sources)] } : q;
+
+    if (!q.allowed_hints.includes('time_window')) return updated;
+    const intervals = targets.map((c) => c.time_interval).filter((i): i is TimeInterval => i !== undefined);
+    const window = describeTimeWindow(intervals);
+    return window ? { ...updated, time_window: window } : updated;
+  });
+}
+
 function formatCableContext(cable?: Cable): string {
   if (!cable) return '';
   return `
@@ -414,7 +788,7 @@ function extractThemes(claims: Claim[]): string[] {
   return themes;
 }
 
-function validateAnswerType(type: string): Question['answer_type'] {
+export function validateAnswerType(type: string): Question['answer_type'] {
   const valid = ['who', 'what', 'when', 'where', 'why', 'how', 'numeric', 'list'];
   return valid.includes(type) ? (type as Question['answer_type']) : 'what';
 }
@@ -438,6 +812,7 @@ export function formatQuestions(questions: Question[], claims: Claim[]): string
     targeted: 'TARGETED (Factoid)',
     contextual: 'CONTEXTUAL (Exploratory)',
     thematic: 'THEMATIC (Pattern-seeking)',
+    multi_hop: 'MULTI-HOP (Mosaic)',
   };
 
   for (const [style, styleQuestions] of byStyle) {
@@ -450,6 +825,9 @@ export function formatQuestions(questions: Question[], claims: Claim[]): string
       lines.push(`\n${q.question_id} → ${targetIds.join(', ')}`);
       lines.push(`  Q: "${q.question_text}"`);
       lines.push(`  Type: ${q.answer_type} | Hints: ${q.allowed_hints.join(', ') || 'none'}`);
+      if (q.time_window) {
+        lines.push(`  Time window: ${q.time_window}`);
+      }
 
       if (q.banned_terms.length > 0) {
         lines.push(`  Banned: ${q.banned_terms.slice(0, 5).join(', ')}${q.banned_terms.length > 5 ? '...' : ''}`);
@@ -460,6 +838,10 @@ export function formatQuestions(questions: Question[], claims: Claim[]): string
         lines.push(`  ${indicator}Leakage: ${(q.leakage_score * 100).toFixed(1)}%`);
       }
 
+      for (const s of q.sub_questions || []) {
+        lines.push(`    ${s.question_id} → ${s.claim_id}: "${s.question_text}"`);
+      }
+
       // Show target claim snippets for targeted questions
       if (style === 'targeted') {
         const claim = claimMap.get(q.targets_claim_id);
@@ -0,0 +1,118 @@
+/**
+ * Source-span grounding: link each claim back to the passages of
+ * cable.body that support it
+ *
+ * The model returns supporting quotes with each claim. Quotes are located
+ * in the body exactly (ignoring case and whitespace) where possible, and
+ * otherwise by fuzzy matching against windows of one to three sentences.
+ * A claim whose quotes (or, without quotes, its own text) can't be located
+ * is marked grounded: false.
+ */
+
+import { splitParagraphs, splitSentences } from './chunking.js';
+import { wordCoverage } from './text-similarity.js';
+import type { Segment } from './chunking.js';
+import type { Claim, SourceSpan } from './types.js';
+
+// Fuzzy matches below this similarity don't count as support
+const MIN_SPAN_SIMILARITY = 0.6;
+const MAX_WINDOW_SENTENCES = 3;
+
+/**
+ * Locate each claim's supporting quotes in the body
+ */
+export function groundClaims(claims: Claim[], body: string): Claim[] {
+  const index = new BodyIndex(body);
+
+  return claims.map((claim) => {
+    const quotes = claim.supporting_quotes?.length ? claim.supporting_quotes : [claim.claim_text];
+    const spans: SourceSpan[] = [];
+
+    for (const quote of quotes) {
+      const span = index.locate(quote);
+      // Several quotes can resolve to the same passage
+      if (span && !spans.some((s) => s.start < span.end && span.start < s.end)) {
+        spans.push(span);
+      }
+    }
+
+    spans.sort((a, b) => a.start - b.start);
+    return { ...claim, source_spans: spans, grounded: spans.length > 0 };
+  });
+}
+
+/**
+ * Claims that could not be located in the body
+ */
+export function getUngroundedClaims(claims: Claim[]): Claim[] {
+  return claims.filter((c) => c.grounded === false);
+}
+
+class BodyIndex {
+  private paragraphs: Segment[];
+  private sentences: Segment[];
+  // Lowercased body with whitespace runs collapsed, and the body offset of
+  // each of its characters
+  private normalized = '';
+  private offsets: number[] = [];
+
+  constructor(private body: string) {
+    this.paragraphs = splitParagraphs(body);
+    this.sentences = splitSentences(body);
+
+    let lastWasSpace = true;
+    for (let i = 0; i < body.length; i++) {
+      const isSpace = /\s/.test(body[i]);
+      if (isSpace && lastWasSpace) continue;
+      this.normalized += isSpace ? ' ' : body[i].toLowerCase();
+      this.offsets.push(i);
+      lastWasSpace = isSpace;
+    }
+  }
+
+  locate(quote: string): SourceSpan | null {
+    const needle = quote.toLowerCase().replace(/\s+/g, ' ').trim();
+    if (!needle) return null;
+
+    const exact = this.normalized.indexOf(needle);
+    if (exact !== -1) {
+      const start = this.offsets[exact];
+      const end = this.offsets[exact + needle.length - 1] + 1;
+      return this.span(start, end, 1);
+    }
+
+    return this.fuzzyLocate(quote);
+  }
+
+  /**
+   * Best window of consecutive sentences: it should cover the quote's words
+   * without being much longer than the quote
+   */
+  private fuzzyLocate(quote: string): SourceSpan | null {
+    let best: { start: number; end: number; score: number } | null = null;
+
+    for (let i = 0; i < this.sentences.length; i++) {
+      for (let j = i; j < Math.min(i + MAX_WINDOW_SENTENCES, this.sentences.length); j++) {
+        const start = this.sentences[i].start;
+        const end = this.sentences[j].end;
+        const window = this.body.slice(start, end);
+        const score = wordCoverage(quote, window) * Math.sqrt(wordCoverage(window, quote));
+        if (!best || score > best.score) best = { start, end, score };
+      }
+    }
+
+    if (!best || best.score < MIN_SPAN_SIMILARITY) return null;
+    return this.span(best.start, best.end, best.score);
+  }
+
+  private span(start: number, end: number, similarity: number): SourceSpan {
+    const paragraph = this.paragraphs.findIndex((p) => start < p.end) + 1 || this.paragraphs.length;
+    return {
+      start,
+      end,
+      paragraph,
+      quote: this.body.slice(start, end),
+      similarity: Math.round(similarity * 100) / 100,
+    };
+  }
+}
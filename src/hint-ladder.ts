@@ -0,0 +1,236 @@
+/**
+ * Hint ladders (--hint-ladder)
+ *
+ * For each important claim, one question asked at increasing specificity:
+ * no hints, then a time window, then the region, the kind of organization
+ * and the topic area, each rung keeping the hints below it. Every variant
+ * is scored for leakage, so a RAG run over the ladder shows how much
+ * context a retriever needs before it finds the target cable.
+ *
+ * The ladder decides which hints each variant may give, rather than the
+ * model's allowed_hints. The time window comes from the claim's interval;
+ * the other hint values are proposed by the model and kept generic. A
+ * variant that gives a hint above its level is flagged in hint_issues.
+ */
+
+import { getLLMProvider } from './llm-provider.js';
+import { filterSupportedClaims } from './claim-verifier.js';
+import { DEFAULT_MIN_IMPORTANCE } from './coverage.js';
+import { validateAnswerType } from './generate-questions.js';
+import { checkLeakage } from './leakage-checker.js';
+import { withReferenceAnswers } from './reference-answers.js';
+import { HINT_LADDER_SCHEMA } from './schemas.js';
+import { combineResponses, generateStructured } from './structured-output.js';
+import { wordCoverage } from './text-similarity.js';
+import { describeTimeWindow, findTimeExpressions } from './temporal.js';
+import type { Cable, Claim, ExtractionOutput, HintLadder, HintLadderResult, HintType, LLMResponse, Question } from './types.js';
+
+// The rungs above level 0, in order: level n gives the first n hints
+export const HINT_ORDER: HintType[] = ['time_window', 'region', 'org_type', 'topic_area'];
+
+const HINT_LABELS: Record<HintType, string> = {
+  time_window: 'time window',
+  region: 'region',
+  org_type: 'org type',
+  topic_area: 'topic area',
+};
+
+const LADDER_PROMPT = `You write HINT LADDERS: one retrieval question about a claim from a diplomatic cable, rewritten at increasing levels of specificity.
+
+Each level adds exactly one hint to the level below it:
+- Level 0: no hints. Only the kind of information sought ("What concerns were raised about a proposed arms reduction?")
+- Level 1: + TIME WINDOW, the coarse period given for the claim ("...in early 1976?")
+- Level 2: + REGION, a broad geographic area ("...in East Asia...")
+- Level 3: + ORG TYPE, the kind of organization involved ("...by a defense ministry...")
+- Level 4: + TOPIC AREA, the policy area ("...about missile production...")
+
+RULES:
+1. All levels ask the same question, for the same answer; only the hints change
+2. A level may use ONLY its own hint and those below it, never a hint from a higher level
+3. Hints stay generic: never names, exact dates, numbers or distinctive phrases from the claim
+4. Propose the region, org_type and topic_area hint values in "hints", as you use them in the questions
+5. Skip the levels marked as skipped for a claim
+6. List the specific terms you avoided in banned_terms`;
+
+// Claims per generation call
+const BATCH_SIZE = 10;
+
+// Share of a hint value's words that count as giving the hint
+const HINT_MATCH = 0.5;
+
+export interface HintLadderOptions {
+  minImportance?: number;  // Claims to build ladders for (default: 4)
+  cableContext?: Cable;
+}
+
+/**
+ * Build a hint ladder for each supported claim at or above minImportance,
+ * with reference answers and leakage scores on every variant
+ */
+export async function buildHintLadders(
+  claims: Claim[],
+  options: HintLadderOptions = {}
+): Promise<{ ladders: HintLadder[]; response: LLMResponse }> {
+  const { minImportance = DEFAULT_MIN_IMPORTANCE, cableContext } = options;
+  const eligible = filterSupportedClaims(claims).filter((c) => c.importance >= minImportance);
+
+  const batches: Claim[][] = [];
+  for (let i = 0; i < eligible.length; i += BATCH_SIZE) {
+    batches.push(eligible.slice(i, i + BATCH_SIZE));
+  }
+  const results = await Promise.all(batches.map((batch) => generateLadders(batch, cableContext)));
+
+  const raws = new Map(results.flatMap(({ data }) => data.ladders).map((raw) => [raw.claim_id, raw]));
+  const ladders: HintLadder[] = [];
+  for (const claim of eligible) {
+    const raw = raws.get(claim.claim_id);
+    if (!raw) continue;
+    const ladder = buildLadder(raw, claim, `l${ladders.length + 1}`);
+    if (ladder.variants.length > 0) ladders.push(ladder);
+  }
+
+  return { ladders, response: combineResponses(results.map((r) => r.response)) };
+}
+
+/**
+ * Turn a generated ladder into scored variants. Each variant is allowed
+ * the hints up to its level that the claim has a value for.
+ */
+export function buildLadder(raw: HintLadderResult['ladders'][number], claim: Claim, ladderId: string): HintLadder {
+  const hints: HintLadder['hints'] = {};
+  const timeWindow = claimTimeWindow(claim);
+  if (timeWindow) hints.time_window = timeWindow;
+  for (const hint of ['region', 'org_type', 'topic_area'] as const) {
+    const value = raw.hints[hint]?.trim();
+    if (value) hints[hint] = value;
+  }
+
+  const variants: Question[] = [];
+  for (let level = 0; level <= HINT_ORDER.length; level++) {
+    if (level > 0 && !hints[HINT_ORDER[level - 1]]) continue;
+    const generated = raw.variants.find((v) => v.hint_level === level);
+    if (!generated) continue;
+
+    const allowed = HINT_ORDER.slice(0, level).filter((hint) => hints[hint]);
+    const variant: Question = {
+      question_id: `${ladderId}.${level}`,
+      targets_claim_id: claim.claim_id,
+      targets_claim_ids: [claim.claim_id],
+      question_text: generated.question_text,
+      question_style: 'targeted',
+      answer_type: validateAnswerType(generated.answer_type),
+      allowed_hints: allowed,
+      ...(allowed.includes('time_window') ? { time_window: hints.time_window } : {}),
+      banned_terms: raw.banned_terms || [],
+      leakage_score: 0,
+      hint_level: level,
+    };
+    variants.push({ ...variant, leakage_score: checkLeakage(variant, claim).score });
+  }
+
+  return {
+    ladder_id: ladderId,
+    claim_id: claim.claim_id,
+    hints,
+    variants: withReferenceAnswers(variants, [claim]),
+    hint_issues: hintIssues(variants, hints),
+  };
+}
+
+/**
+ * Re-score saved ladders against their claims without regenerating them,
+ * e.g. after a change to the leakage checker or the entity registry.
+ * Ladders whose claim is gone are kept as they were.
+ */
+export function rescoreHintLadders(ladders: HintLadder[], claims: Claim[]): HintLadder[] {
+  const claimMap = new Map(claims.map((c) => [c.claim_id, c]));
+  return ladders.map((ladder) => {
+    const claim = claimMap.get(ladder.claim_id);
+    if (!claim) return ladder;
+    const variants = ladder.variants.map((v) => ({ ...v, leakage_score: checkLeakage(v, claim).score }));
+    return { ...ladder, variants, hint_issues: hintIssues(variants, ladder.hints) };
+  });
+}
+
+function hintIssues(variants: Question[], hints: HintLadder['hints']): string[] {
+  return variants.flatMap((v) =>
+    hintsAboveLevel(v, hints).map((hint) => `${v.question_id}: gives the ${HINT_LABELS[hint]} hint above its level`)
+  );
+}
+
+/**
+ * Hints a variant gives that its level doesn't allow: any date for the
+ * time window, and for the others most of the words of the hint's value
+ */
+function hintsAboveLevel(variant: Question, hints: HintLadder['hints']): HintType[] {
+  return HINT_ORDER.filter((hint) => {
+    const value = hints[hint];
+    if (!value || variant.allowed_hints.includes(hint)) return false;
+    if (hint === 'time_window') return findTimeExpressions(variant.question_text).length > 0;
+    return wordCoverage(value, variant.question_text) >= HINT_MATCH;
+  });
+}
+
+/**
+ * The label of a hint level, e.g. "0 (no hints)", "2 (+ region)"
+ */
+export function describeHintLevel(level: number): string {
+  return level === 0 ? '0 (no hints)' : `${level} (+ ${HINT_LABELS[HINT_ORDER[level - 1]] || '?'})`;
+}
+
+/**
+ * A cable's questions followed by its hint ladder variants, which are
+ * answered and graded like any other question
+ */
+export function allQuestions(output: ExtractionOutput): Question[] {
+  return [...output.questions, ...(output.hint_ladders || []).flatMap((l) => l.variants)];
+}
+
+function claimTimeWindow(claim: Claim): string | undefined {
+  return claim.time_interval && describeTimeWindow([claim.time_interval]);
+}
+
+/**
+ * One generation call for a batch of claims
+ */
+async function generateLadders(
+  claims: Claim[],
+  cable?: Cable
+): Promise<{ data: HintLadderResult; response: LLMResponse }> {
+  const entries = claims.map((c) => {
+    const timeWindow = claimTimeWindow(c);
+    return `
+---
+Claim ID: ${c.claim_id}
+Claim: "${c.claim_text}"
+Type: ${c.claim_type} | Entities: ${c.entities.join(', ') || 'none'}
+${timeWindow ? `Time window (level 1): ${timeWindow}` : 'Time window: none known, skip level 1'}
+---`;
+  });
+
+  const userPrompt = `Build one hint ladder, levels 0-4, for each of these ${claims.length} claims.
+${cable ? `\nCABLE ID: ${cable.doc_nbr}\nDATE: ${cable.date}\n` : ''}
+${entries.join('\n')}
+
+Return JSON ONLY in this format:
+{
+  "ladders": [
+    {
+      "claim_id": "c1",
+      "hints": { "region": "...", "org_type": "...", "topic_area": "..." },
+      "variants": [
+        { "hint_level": 0, "question_text": "...", "answer_type": "what" }
+      ],
+      "banned_terms": ["term1"]
+    }
+  ]
+}`;
+
+  return generateStructured<HintLadderResult>(
+    getLLMProvider('ladder'),
+    LADDER_PROMPT,
+    userPrompt,
+    HINT_LADDER_SCHEMA,
+    { label: 'hint ladders' }
+  );
+}
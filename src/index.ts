@@ -17,23 +17,62 @@
  *   # Show CSV statistics
  *   npx tsx src/index.ts --csv /path/to/noforn.csv --stats
  *
+ *   # Use a local OpenAI-compatible server for question generation
+ *   npx tsx src/index.ts --csv /path/to/noforn.csv --limit 5 --questions-llm openai:qwen2.5-32b
+ *
+ *   # Re-score leakage on saved outputs, without LLM calls
+ *   npx tsx src/index.ts leakage --output output-csv-targets
+ *
  * OUTPUTS:
  *   - output/<doc_id>.json      - Full JSON with claims, questions, metadata
  *   - output/<doc_id>.md        - Human-readable report
  *   - output/extractions.jsonl  - Combined JSONL (one line per cable)
  *   - output/batch-summary.md   - Summary of batch processing
+ *   - output/run-manifest.json  - Per-cable status, for --resume / --retry-failed
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { parseCablesFromCSV, getCableByDocNbr, countCablesWithBody } from './csv-parser.js';
 import { parseRAGTargets } from './rag-csv-parser.js';
-import { extractClaims, formatClaims } from './extract-claims.js';
-import { generateQuestions, formatQuestions } from './generate-questions.js';
-import { checkAllLeakage, generateLeakageReport, getHighLeakageQuestions } from './leakage-checker.js';
-import { runLeakageValidation } from './llm-leakage-validator.js';
-import { generateReport, generateBatchSummary } from './report-generator.js';
-import type { Cable, ExtractionOutput, QuestionStyle } from './types.js';
+import {
+  runClaimsStage,
+  runEntitiesStage,
+  runVerificationStage,
+  runRelationsStage,
+  runQuestionsStage,
+  runLeakageStage,
+  runValidationStage,
+  runRegenerationStage,
+  runCoverageStage,
+  runChainsStage,
+  runLadderStage,
+  reportLeakage,
+} from './pipeline-stages.js';
+import {
+  writeCableOutputs,
+  writeCombinedOutputs,
+  readCableOutput,
+  JSONL_FILENAME,
+  BATCH_SUMMARY_FILENAME,
+  QA_GOLD_FILENAME,
+} from './output-files.js';
+import { configureProviders, describeModels, parseProviderSpec, LLM_STAGES, QUESTION_STAGES } from './llm-provider.js';
+import { BudgetExceededError, CostLedger, configureBudget, getBudgetSpent } from './cost-ledger.js';
+import { configureRateLimiter, runPool } from './concurrency.js';
+import { ManifestStore, MANIFEST_FILENAME } from './run-manifest.js';
+import type { PipelineStep } from './run-manifest.js';
+import { isStageCommand, runStageCommand } from './stage-commands.js';
+import type { StageCommand } from './stage-commands.js';
+import { configureFakeLLM } from './fake-llm.js';
+import { runClaimEval, formatClaimEvalReport, CLAIM_EVAL_REPORT_FILENAME } from './claim-eval.js';
+import type { MatchMethod } from './claim-eval.js';
+import { runGrade, formatGradeReport, GRADE_REPORT_FILENAME } from './answer-grading.js';
+import { configureEntityRegistry, DEFAULT_REGISTRY_PATH } from './entity-registry.js';
+import { CacheMissError, configureCache, parseCacheMode } from './llm-cache.js';
+import type { CacheMode } from './llm-cache.js';
+import type { LLMStage, ProviderSpec } from './llm-provider.js';
+import type { Cable, ClaimRelation, ExtractionOutput, QuestionStyle } from './types.js';
 
 // Load environment variables from .env
 import { config } from 'dotenv';
@@ -44,6 +83,12 @@ config();
 // =============================================================================
 
 interface CLIOptions {
+  command?: StageCommand;  // Re-run one stage over saved outputs
+  evalClaims?: boolean;   // eval-claims: score saved claims against --gold
+  goldPath?: string;
+  matchMethod?: MatchMethod;
+  grade?: boolean;        // grade: score RAG answers against the reference answers
+  answersPath?: string;
   csvPath?: string;
   ragCsvPath?: string;  // For RAG retrieval CSV (tag_retriever_elbow.csv)
   docId?: string;
@@ -55,7 +100,32 @@ interface CLIOptions {
   claimsOnly?: boolean;
   stats?: boolean;
   styles?: QuestionStyle[];
+  multiHop?: boolean;      // Add multi-hop questions to the styles
   validateLeakage?: boolean;
+  regenerate?: boolean;    // Rewrite questions still above the leakage threshold
+  maxAttempts?: number;    // Rewrites per question
+  coverage?: boolean;      // Follow-up questions for important claims without a usable one
+  minImportance?: number;
+  queryChains?: boolean;   // Innocuous query chains for important claims
+  hintLadder?: boolean;    // Question variants at increasing hint levels
+  verifyClaims?: boolean;  // LLM faithfulness check on each claim
+  claimRelations?: boolean;  // LLM relation graph between claims
+  resolveEntities?: boolean; // LLM resolution of mentions the registry doesn't know
+  samples?: number;       // Extraction runs for self-consistency
+  minAgreement?: number;  // Runs that must find a claim to keep it
+  sampleTemperature?: number;  // Sampling temperature of the self-consistency runs
+  entityRegistry?: string;
+  llm?: ProviderSpec;                                   // Default provider for all stages
+  stageLLMs?: Partial<Record<LLMStage, ProviderSpec>>;  // Per-stage overrides
+  cacheMode?: CacheMode;
+  cacheDir?: string;
+  fakeFixtures?: string;  // Serve all LLM calls from fixtures (offline runs)
+  maxCost?: number;       // Run-wide budget in USD
+  concurrency?: number;   // Cables processed in parallel
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  resume?: boolean;       // Skip cables the manifest marks done
+  retryFailed?: boolean;  // Only process cables the manifest marks failed
 }
 
 function parseArgs(): CLIOptions {
@@ -66,8 +136,22 @@ function parseArgs(): CLIOptions {
     claimsOnly: false,
     styles: ['targeted', 'contextual', 'thematic'],
     validateLeakage: false,
+    stageLLMs: {},
+    cacheDir: './.llm-cache',
+    entityRegistry: DEFAULT_REGISTRY_PATH,
+    concurrency: 1,
   };
 
+  if (args.length > 0 && isStageCommand(args[0])) {
+    options.command = args.shift() as StageCommand;
+  } else if (args[0] === 'eval-claims') {
+    args.shift();
+    options.evalClaims = true;
+  } else if (args[0] === 'grade') {
+    args.shift();
+    options.grade = true;
+  }
+
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
       case '--csv':
@@ -104,6 +188,9 @@ function parseArgs(): CLIOptions {
       case '--contextual-only':
         options.styles = ['contextual', 'thematic'];
         break;
+      case '--multi-hop':
+        options.multiHop = true;
+        break;
       case '--stats':
         options.stats = true;
         break;
@@ -111,6 +198,128 @@ function parseArgs(): CLIOptions {
       case '--validate':
         options.validateLeakage = true;
         break;
+      case '--regenerate':
+        options.regenerate = true;
+        break;
+      case '--max-attempts':
+        options.maxAttempts = Math.max(1, parseInt(args[++i], 10));
+        break;
+      case '--coverage':
+        options.coverage = true;
+        break;
+      case '--min-importance':
+        options.minImportance = parseInt(args[++i], 10);
+        break;
+      case '--query-chains':
+        options.queryChains = true;
+        break;
+      case '--hint-ladder':
+        options.hintLadder = true;
+        break;
+      case '--verify-claims':
+        options.verifyClaims = true;
+        break;
+      case '--claim-relations':
+        options.claimRelations = true;
+        break;
+      case '--resolve-entities':
+        options.resolveEntities = true;
+        break;
+      case '--samples':
+        options.samples = Math.max(1, parseInt(args[++i], 10));
+        break;
+      case '--min-agreement':
+        options.minAgreement = Math.max(1, parseInt(args[++i], 10));
+        break;
+      case '--sample-temperature':
+        options.sampleTemperature = parseFloat(args[++i]);
+        break;
+      case '--llm':
+        options.llm = parseProviderSpec(args[++i]);
+        break;
+      case '--claims-llm':
+        options.stageLLMs!.claims = parseProviderSpec(args[++i]);
+        break;
+      case '--questions-llm': {
+        const spec = parseProviderSpec(args[++i]);
+        for (const stage of QUESTION_STAGES) options.stageLLMs![stage] = spec;
+        break;
+      }
+      case '--entity-registry':
+        options.entityRegistry = args[++i];
+        break;
+      case '--entities-llm':
+        options.stageLLMs!.entities = parseProviderSpec(args[++i]);
+        break;
+      case '--verification-llm':
+        options.stageLLMs!.verification = parseProviderSpec(args[++i]);
+        break;
+      case '--relations-llm':
+        options.stageLLMs!.relations = parseProviderSpec(args[++i]);
+        break;
+      case '--gold':
+        options.goldPath = args[++i];
+        break;
+      case '--match': {
+        const method = args[++i];
+        if (method !== 'lexical' && method !== 'llm') {
+          throw new Error(`Unknown match method "${method}" (expected lexical or llm)`);
+        }
+        options.matchMethod = method;
+        break;
+      }
+      case '--matching-llm':
+        options.stageLLMs!.matching = parseProviderSpec(args[++i]);
+        break;
+      case '--answers':
+        options.answersPath = args[++i];
+        break;
+      case '--grading-llm':
+        options.stageLLMs!.grading = parseProviderSpec(args[++i]);
+        break;
+      case '--validation-llm':
+        options.stageLLMs!.validation = parseProviderSpec(args[++i]);
+        break;
+      case '--regeneration-llm':
+        options.stageLLMs!.regeneration = parseProviderSpec(args[++i]);
+        break;
+      case '--coverage-llm':
+        options.stageLLMs!.coverage = parseProviderSpec(args[++i]);
+        break;
+      case '--chains-llm':
+        options.stageLLMs!.chains = parseProviderSpec(args[++i]);
+        break;
+      case '--ladder-llm':
+        options.stageLLMs!.ladder = parseProviderSpec(args[++i]);
+        break;
+      case '--cache':
+        options.cacheMode = parseCacheMode(args[++i]);
+        break;
+      case '--cache-dir':
+        options.cacheDir = args[++i];
+        break;
+      case '--concurrency':
+        options.concurrency = Math.max(1, parseInt(args[++i], 10));
+        break;
+      case '--rpm':
+        options.requestsPerMinute = parseInt(args[++i], 10);
+        break;
+      case '--tpm':
+        options.tokensPerMinute = parseInt(args[++i], 10);
+        break;
+      case '--resume':
+        options.resume = true;
+        break;
+      case '--retry-failed':
+        options.retryFailed = true;
+        break;
+      case '--max-cost':
+        options.maxCost = parseFloat(args[++i]);
+        break;
+      case '--fake-llm':
+        options.fakeFixtures = args[++i];
+        options.llm = { provider: 'fake' };
+        break;
       case '--help':
       case '-h':
         printHelp();
@@ -118,6 +327,9 @@ function parseArgs(): CLIOptions {
     }
   }
 
+  // Added on top of whichever styles were selected
+  if (options.multiHop) options.styles = [...options.styles!, 'multi_hop'];
+
   return options;
 }
 
@@ -130,6 +342,44 @@ function printHelp(): void {
 ║  questions for RAG evaluation (mosaic theory testing)            ║
 ╚══════════════════════════════════════════════════════════════════╝
 
+USAGE:
+  npx tsx src/index.ts [command] [options]
+
+  Without a command, runs the full pipeline on the input cables.
+
+COMMANDS (re-run one stage over the <doc_id>.json files in --output):
+  extract                Re-extract claims (clears questions; needs the cable
+                         body, saved in outputs or given with --csv / --rag-csv)
+  entities               Re-link claim entities to the registry (e.g. after
+                         editing it by hand)
+  verify                 Re-run claim verification (as --verify-claims)
+  relations              Re-map claim relations (as --claim-relations)
+  questions              Regenerate questions and score their leakage
+  leakage                Re-score leakage with the rule-based checker (no LLM)
+  validate               Re-run LLM leakage validation
+  regenerate             Rewrite high-leakage questions (as --regenerate)
+  coverage               Fill claim coverage gaps (as --coverage)
+  chains                 Rebuild query chains (as --query-chains)
+  ladder                 Rebuild hint ladders (as --hint-ladder)
+  answers                Rebuild reference answers from the claims (no LLM)
+  report                 Regenerate the Markdown reports
+  summary                Rebuild extractions.jsonl, qa-gold.jsonl and
+                         batch-summary.md
+
+  --doc-id, --limit and --offset select which outputs to update.
+
+EVALUATION:
+  eval-claims --gold <path>  Score the claims in --output against gold
+                         annotations (P/R/F1 per type, type accuracy,
+                         importance correlation); writes claim-eval.md/.json
+  --match <method>       lexical (default) or llm claim alignment
+  --matching-llm <spec>  Provider for --match llm
+  grade --answers <path> Grade RAG answers (JSONL of question_id, answer,
+                         retrieved_doc_ids) against the reference answers in
+                         --output, per question style, claim type and hint
+                         level; writes grade.md/.json
+  --grading-llm <spec>   Provider for the why/how/what answer judge
+
 INPUTS (choose one):
   --csv <path>           Path to NOFORN CSV file
   --rag-csv <path>       Path to RAG retrieval CSV (tag_retriever_elbow.csv)
@@ -143,11 +393,75 @@ OPTIONS:
   --claims-only          Extract claims only, skip questions
   --targeted-only        Only generate targeted (factoid) questions
   --contextual-only      Only generate contextual/thematic questions
+  --multi-hop            Also generate multi-hop questions that combine claims
+                         sharing an entity or time period, each with one
+                         sub-question per claim
   --validate-leakage     Run LLM validation on leakage (costs extra tokens)
+  --regenerate           Rewrite questions with leakage >30%, feeding back
+                         their leakage issues; still-leaking questions are
+                         marked unfixable
+  --max-attempts <n>     Rewrites per question for --regenerate, generations
+                         per chain for --query-chains (default: 3)
+  --coverage             Generate follow-up questions until every important
+                         claim has one with leakage <=30%
+  --min-importance <n>   Claims --coverage must cover, --query-chains
+                         decomposes and --hint-ladder asks about (default:
+                         importance 4+)
+  --query-chains         Build ordered chains of individually innocuous queries
+                         whose answers together reconstruct each important claim
+  --hint-ladder          Ask about each important claim at increasing hint
+                         levels (none, + time window, + region, + org type,
+                         + topic area), scoring every variant's leakage
+  --verify-claims        Check each claim against the cable body with the LLM;
+                         unsupported claims get no questions
+  --samples <n>          Extract claims n times and keep the claims most runs
+                         agree on, with per-claim agreement scores
+  --min-agreement <k>    Runs that must find a claim to keep it (default:
+                         a majority of --samples)
+  --sample-temperature <t> Sampling temperature of the --samples runs
+                         (default: 0.8)
+  --claim-relations      Map supports/contradicts/elaborates/causes/precedes
+                         links between claims; contextual and thematic
+                         questions target related groups
   --verbose, -v          Show detailed output during processing
+  --max-cost <usd>       Stop the batch before spending more than this
+  --concurrency <n>      Process n cables in parallel (default: 1)
+  --resume               Skip cables already done in this output directory
+  --retry-failed         Only reprocess cables that failed in earlier runs
+  --entity-registry <path>  Entity alias registry, shared across runs and
+                         editable by hand (default: ./entity-registry.json)
+  --resolve-entities     Resolve mentions the registry doesn't know with one
+                         LLM call per cable, growing the registry (default:
+                         only link known mentions)
+  --rpm <n>              Shared limit on LLM requests per minute
+  --tpm <n>              Shared limit on LLM tokens per minute
   --stats                Show CSV statistics and exit
   --help, -h             Show this help
 
+LLM PROVIDERS (format: provider[:model], provider is gemini, openai or fake):
+  --llm <spec>           Provider for all stages (default: gemini:gemini-2.5-flash)
+  --claims-llm <spec>    Provider for claim extraction
+  --questions-llm <spec> Provider for question generation
+  --entities-llm <spec>  Provider for --resolve-entities
+  --verification-llm <spec> Provider for --verify-claims
+  --relations-llm <spec> Provider for --claim-relations
+  --validation-llm <spec> Provider for LLM leakage validation
+  --regeneration-llm <spec> Provider for --regenerate
+  --coverage-llm <spec>  Provider for --coverage follow-up questions
+  --chains-llm <spec>    Provider for --query-chains
+  --ladder-llm <spec>    Provider for --hint-ladder
+
+  gemini uses GEMINI_API_KEY. openai uses OPENAI_API_KEY (optional for local
+  servers), OPENAI_BASE_URL (default: https://api.openai.com/v1) and OPENAI_MODEL.
+  --fake-llm <path>      Answer every LLM call from fixture JSON (file or directory),
+                         no API key or network needed
+
+RESPONSE CACHE:
+  --cache <mode>         read: reuse cached responses, record misses
+                         write: always call the LLM and re-record
+                         replay-only: never call the LLM, fail on a miss
+  --cache-dir <dir>      Cache directory (default: ./.llm-cache)
+
 OUTPUTS:
   For each cable processed:
     - <doc_id>.json      Full structured data (claims, questions, metadata)
@@ -155,7 +469,9 @@ OUTPUTS:
 
   Combined outputs:
     - extractions.jsonl  All extractions as JSON lines
+    - ${QA_GOLD_FILENAME}      Every question with its reference answer
     - batch-summary.md   Summary table (if multiple cables)
+    - ${MANIFEST_FILENAME}  Status of every cable (done / failed / pending)
 
 EXAMPLES:
 
@@ -169,6 +485,17 @@ EXAMPLES:
   # Process text directly
   npx tsx src/index.ts --text "The ambassador reported that negotiations..."
 
+  # Generate questions with a local llama.cpp / vLLM server
+  OPENAI_BASE_URL=http://localhost:8080/v1 npx tsx src/index.ts \\
+      --csv /Users/chim/Downloads/noforn.csv --limit 5 --questions-llm openai:local
+
+  # Reproduce a past run offline from recorded responses
+  npx tsx src/index.ts --csv /Users/chim/Downloads/noforn.csv --limit 5 \\
+      --cache replay-only
+
+  # Re-score leakage on saved outputs after changing the checker
+  npx tsx src/index.ts leakage --output output-csv-targets
+
   # Check how many cables have content
   npx tsx src/index.ts --csv /Users/chim/Downloads/noforn.csv --stats
 
@@ -185,11 +512,11 @@ QUESTION STYLES:
 
 async function processCable(
   cable: Cable,
-  options: CLIOptions
+  options: CLIOptions,
+  onStep: (step: PipelineStep) => void = () => {}
 ): Promise<ExtractionOutput> {
   const startTime = Date.now();
-  let totalTokens = 0;
-  let totalCost = 0;
+  const ledger = new CostLedger();
 
   console.log(`\n${'─'.repeat(60)}`);
   console.log(`Processing: ${cable.doc_nbr}`);
@@ -199,112 +526,102 @@ async function processCable(
 
   // Step 1: Extract claims
   console.log('\n📋 Step 1: Extracting claims...');
-  const { claims, response: claimResponse } = await extractClaims(cable);
-  totalTokens += claimResponse.tokens;
-  totalCost += claimResponse.cost_usd;
-
-  console.log(`   ✓ Found ${claims.length} claims`);
-  console.log(`   ✓ Tokens: ${claimResponse.tokens} | Cost: $${claimResponse.cost_usd.toFixed(4)}`);
-
-  // Show claim breakdown
-  const claimTypes = new Map<string, number>();
-  for (const c of claims) {
-    claimTypes.set(c.claim_type, (claimTypes.get(c.claim_type) || 0) + 1);
+  onStep('claims');
+  let claims = await runClaimsStage(cable, ledger, options);
+
+  // Step 1a: Link entities to the registry (unknown ones with the LLM, optional)
+  console.log(options.resolveEntities ? '\n🏷️  Step 1a: Resolving entities...' : '\n🏷️  Step 1a: Linking known entities...');
+  onStep('entities');
+  claims = await runEntitiesStage(cable, claims, ledger, options);
+
+  // Step 1b: Verify claims against the body (optional)
+  if (options.verifyClaims) {
+    console.log('\n🧪 Step 1b: Verifying claims against the cable body...');
+    onStep('verification');
+    claims = await runVerificationStage(cable, claims, ledger, options);
   }
-  const breakdown = [...claimTypes.entries()].map(([t, n]) => `${t}:${n}`).join(', ');
-  console.log(`   ✓ Types: ${breakdown}`);
 
-  if (options.verbose) {
-    console.log(formatClaims(claims));
+  // Step 1c: Map relations between claims (optional)
+  let relations: ClaimRelation[] | undefined;
+  if (options.claimRelations) {
+    console.log('\n🕸️  Step 1c: Mapping claim relations...');
+    onStep('relations');
+    relations = await runRelationsStage(cable, claims, ledger, options);
   }
 
   // Step 2: Generate questions (unless claims-only)
   let questions: ExtractionOutput['questions'] = [];
+  let coverage: ExtractionOutput['coverage'];
+  let queryChains: ExtractionOutput['query_chains'];
+  let hintLadders: ExtractionOutput['hint_ladders'];
   if (!options.claimsOnly) {
     console.log('\n❓ Step 2: Generating questions...');
-    const { questions: rawQuestions, response: questionResponse } = await generateQuestions(
-      claims,
-      {
-        cableContext: cable,
-        styles: options.styles,
-      }
-    );
-    totalTokens += questionResponse.tokens;
-    totalCost += questionResponse.cost_usd;
-
-    console.log(`   ✓ Generated ${rawQuestions.length} questions`);
-    console.log(`   ✓ Tokens: ${questionResponse.tokens} | Cost: $${questionResponse.cost_usd.toFixed(4)}`);
-
-    // Show question style breakdown
-    const styleBreakdown = new Map<string, number>();
-    for (const q of rawQuestions) {
-      const style = q.question_style || 'targeted';
-      styleBreakdown.set(style, (styleBreakdown.get(style) || 0) + 1);
-    }
-    const qBreakdown = [...styleBreakdown.entries()].map(([s, n]) => `${s}:${n}`).join(', ');
-    console.log(`   ✓ Styles: ${qBreakdown}`);
+    onStep('questions');
+    questions = await runQuestionsStage(cable, claims, ledger, options, relations);
 
     // Step 3: Check leakage (rule-based)
     console.log('\n🔍 Step 3: Checking leakage (rule-based)...');
-    questions = checkAllLeakage(rawQuestions, claims);
-    let highLeakage = getHighLeakageQuestions(questions);
-    let avgLeakage = questions.reduce((sum, q) => sum + q.leakage_score, 0) / questions.length;
-
-    console.log(`   ✓ Rule-based check complete`);
-    console.log(`   ✓ Flagged: ${highLeakage.length} questions (>30%)`);
-    console.log(`   ✓ Average: ${(avgLeakage * 100).toFixed(1)}%`);
+    onStep('leakage');
+    questions = runLeakageStage(questions, claims);
 
     // Step 4: LLM validation (optional)
     if (options.validateLeakage) {
       console.log('\n🤖 Step 4: LLM leakage validation...');
-      const { validatedQuestions, report, response: validationResponse } = await runLeakageValidation(
-        questions,
-        claims
-      );
-      questions = validatedQuestions;
-      totalTokens += validationResponse.tokens;
-      totalCost += validationResponse.cost_usd;
-
-      // Recompute stats
-      highLeakage = getHighLeakageQuestions(questions);
-      avgLeakage = questions.reduce((sum, q) => sum + q.leakage_score, 0) / questions.length;
-
-      console.log(`   ✓ Validation complete`);
-      console.log(`   ✓ Tokens: ${validationResponse.tokens} | Cost: $${validationResponse.cost_usd.toFixed(4)}`);
-      console.log(`   ✓ Final flagged: ${highLeakage.length} questions (>30%)`);
-      console.log(`   ✓ Final average: ${(avgLeakage * 100).toFixed(1)}%`);
-
-      if (options.verbose) {
-        console.log('\n' + report);
-      }
+      onStep('validation');
+      questions = await runValidationStage(questions, claims, ledger, options);
+    }
+
+    // Step 5: Rewrite high-leakage questions (optional)
+    if (options.regenerate) {
+      console.log('\n♻️  Step 5: Regenerating high-leakage questions...');
+      onStep('regeneration');
+      questions = await runRegenerationStage(cable, questions, claims, ledger, options);
     }
 
-    if (highLeakage.length > 0) {
-      console.log(`\n   ⚠️  ${highLeakage.length} questions have high leakage (>30%)`);
-    } else {
-      console.log(`\n   ✓ No high-leakage questions`);
+    // Step 6: Fill claim coverage gaps (optional)
+    if (options.coverage) {
+      console.log('\n🧭 Step 6: Checking claim coverage...');
+      onStep('coverage');
+      ({ questions, coverage } = await runCoverageStage(cable, questions, claims, ledger, options));
+    }
+
+    reportLeakage(questions, claims, options);
+
+    // Step 7: Innocuous query chains (optional)
+    if (options.queryChains) {
+      console.log('\n⛓️  Step 7: Building query chains...');
+      onStep('chains');
+      queryChains = await runChainsStage(cable, claims, ledger, options);
     }
 
-    if (options.verbose) {
-      console.log(formatQuestions(questions, claims));
-      console.log('\n' + generateLeakageReport(questions, claims));
+    // Step 8: Hint ladders (optional)
+    if (options.hintLadder) {
+      console.log('\n🪜 Step 8: Building hint ladders...');
+      onStep('ladder');
+      hintLadders = await runLadderStage(cable, claims, ledger, options);
     }
   }
 
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
-  console.log(`\n✅ Complete in ${elapsed}s | Total: ${totalTokens} tokens | $${totalCost.toFixed(4)}`);
+  console.log(`\n✅ Complete in ${elapsed}s | Total: ${ledger.totalTokens} tokens | $${ledger.totalCost.toFixed(4)}`);
 
   return {
     doc_id: cable.doc_nbr,
     doc_subject: cable.subject,
     doc_date: cable.date,
+    cable,
     claims,
+    claim_relations: relations,
     questions,
+    coverage,
+    query_chains: queryChains,
+    hint_ladders: hintLadders,
     metadata: {
       extraction_timestamp: new Date().toISOString(),
-      model: 'gemini-2.5-flash',
-      total_tokens: totalTokens,
-      cost_usd: totalCost,
+      model: describeModels(Object.keys(ledger.breakdown()) as LLMStage[]),
+      total_tokens: ledger.totalTokens,
+      cost_usd: ledger.totalCost,
+      stage_costs: ledger.breakdown(),
     },
   };
 }
@@ -312,6 +629,32 @@ async function processCable(
 async function main(): Promise<void> {
   const options = parseArgs();
 
+  if (options.cacheMode) {
+    configureCache({ mode: options.cacheMode, dir: options.cacheDir! });
+  }
+
+  if (options.fakeFixtures) {
+    configureFakeLLM(options.fakeFixtures);
+  }
+
+  configureEntityRegistry(options.entityRegistry!);
+
+  // Route each stage to its configured LLM provider
+  const defaultLLM = options.llm || { provider: 'gemini' as const };
+  const stageSpecs: Partial<Record<LLMStage, ProviderSpec>> = {};
+  for (const stage of LLM_STAGES) {
+    stageSpecs[stage] = options.stageLLMs?.[stage] || defaultLLM;
+  }
+  configureRateLimiter({
+    requestsPerMinute: options.requestsPerMinute,
+    tokensPerMinute: options.tokensPerMinute,
+  });
+  configureProviders(stageSpecs);
+
+  if (options.maxCost !== undefined) {
+    configureBudget(options.maxCost);
+  }
+
   // Ensure output directory exists
   fs.mkdirSync(options.outputDir!, { recursive: true });
 
@@ -327,6 +670,68 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (options.evalClaims) {
+    if (!options.goldPath) {
+      console.error('Error: eval-claims needs --gold <path>');
+      process.exit(1);
+    }
+    const result = await runClaimEval({
+      outputDir: options.outputDir!,
+      goldPath: options.goldPath,
+      matchMethod: options.matchMethod,
+      concurrency: options.concurrency,
+    });
+    console.log('\n' + formatClaimEvalReport(result));
+    console.log(`\n📁 ${path.join(options.outputDir!, CLAIM_EVAL_REPORT_FILENAME)}`);
+    return;
+  }
+
+  if (options.grade) {
+    if (!options.answersPath) {
+      console.error('Error: grade needs --answers <path>');
+      process.exit(1);
+    }
+    const result = await runGrade({
+      outputDir: options.outputDir!,
+      answersPath: options.answersPath,
+      concurrency: options.concurrency,
+    });
+    console.log('\n' + formatGradeReport(result));
+    console.log(`\n📁 ${path.join(options.outputDir!, GRADE_REPORT_FILENAME)}`);
+    return;
+  }
+
+  // Stage subcommands work on the outputs already saved
+  if (options.command) {
+    let inputCables: Cable[] | undefined;
+    if (options.ragCsvPath) {
+      inputCables = parseRAGTargets(options.ragCsvPath);
+    } else if (options.csvPath) {
+      const cable = options.docId ? getCableByDocNbr(options.csvPath, options.docId) : null;
+      inputCables = cable ? [cable] : parseCablesFromCSV(options.csvPath);
+    }
+
+    await runStageCommand(options.command, {
+      outputDir: options.outputDir!,
+      docId: options.docId,
+      limit: options.limit,
+      offset: options.offset,
+      concurrency: options.concurrency,
+      styles: options.styles,
+      verbose: options.verbose,
+      samples: options.samples,
+      minAgreement: options.minAgreement,
+      sampleTemperature: options.sampleTemperature,
+      maxAttempts: options.maxAttempts,
+      validateLeakage: options.validateLeakage,
+      regenerate: options.regenerate,
+      minImportance: options.minImportance,
+      resolveEntities: options.resolveEntities,
+      inputCables,
+    });
+    return;
+  }
+
   // Collect cables to process
   let cables: Cable[] = [];
 
@@ -374,6 +779,23 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Narrow the selection using the run manifest from earlier runs
+  const manifest = new ManifestStore(options.outputDir!);
+  const selectedCables = cables;
+  if (options.retryFailed) {
+    cables = cables.filter((c) => manifest.status(c.doc_nbr) === 'failed');
+    console.log(`\n🔁 Retrying ${cables.length} failed cables (of ${selectedCables.length} selected)`);
+  } else if (options.resume) {
+    cables = cables.filter((c) => manifest.status(c.doc_nbr) !== 'done');
+    console.log(`\n🔁 Resuming: ${selectedCables.length - cables.length} cables already done, ${cables.length} remaining`);
+  }
+
+  if (cables.length === 0) {
+    console.log('✓ Nothing to do');
+    return;
+  }
+  manifest.markPending(cables.map((c) => c.doc_nbr));
+
   console.log(`
 ╔══════════════════════════════════════════════════════════════════╗
 ║           QUERY-CLAIM EXTRACTION PIPELINE                        ║
@@ -387,50 +809,111 @@ async function main(): Promise<void> {
   } else {
     console.log(`⚙️  Question styles: ${options.styles?.join(', ')}`);
   }
+  if (options.concurrency! > 1) {
+    console.log(`⚙️  Concurrency: ${options.concurrency} cables`);
+  }
+  if (options.maxCost !== undefined) {
+    console.log(`💰 Budget: $${options.maxCost.toFixed(4)}`);
+  }
 
-  // Process each cable
-  const results: ExtractionOutput[] = [];
+  // Process cables, up to --concurrency at a time
+  const completed: Array<ExtractionOutput | undefined> = new Array(cables.length);
+  let completedCount = 0;
+  let inFlight = 0;
   let totalCost = 0;
+  let stoppedForBudget = false;
+  let fatalError: unknown = null;
+
+  await runPool(
+    cables,
+    options.concurrency!,
+    async (cable, i) => {
+      // Don't start a cable that would likely push the run over budget,
+      // estimating its cost from the average of the cables done so far
+      // (cables already in flight are assumed to cost the same)
+      if (options.maxCost !== undefined) {
+        const spent = getBudgetSpent();
+        const estimate = completedCount > 0 ? spent / completedCount : 0;
+        if (spent + estimate * (inFlight + 1) > options.maxCost) {
+          if (!stoppedForBudget) {
+            console.log(`\n💰 Budget: $${spent.toFixed(4)} spent, next cable estimated at $${estimate.toFixed(4)}`);
+            console.log(`   Stopping before ${cable.doc_nbr}`);
+          }
+          stoppedForBudget = true;
+          return;
+        }
+      }
+
+      console.log(`\n[${i + 1}/${cables.length}]`);
+      inFlight++;
+      let step: PipelineStep = 'claims';
+
+      try {
+        const result = await processCable(cable, options, (s) => (step = s));
+        step = 'output';
+
+        // Write JSON output and Markdown report
+        const { jsonPath, mdPath } = writeCableOutputs(options.outputDir!, cable, result);
+
+        console.log(`\n📄 Output files:`);
+        console.log(`   - ${jsonPath}`);
+        console.log(`   - ${mdPath}`);
+
+        completed[i] = result;
+        completedCount++;
+        totalCost += result.metadata.cost_usd;
+        manifest.markDone(cable.doc_nbr);
+      } catch (error) {
+        // Running out of budget isn't the cable's fault; leave it pending
+        if (error instanceof BudgetExceededError) {
+          console.log(`\n💰 ${error.message}; ${cable.doc_nbr} not completed`);
+          stoppedForBudget = true;
+          return;
+        }
+        manifest.markFailed(cable.doc_nbr, step, error);
+        // A replay that misses the cache can't reproduce the run; stop the batch
+        if (error instanceof CacheMissError) {
+          fatalError = fatalError || error;
+          return;
+        }
+        console.error(`\n❌ Error processing ${cable.doc_nbr} (${step}):`, error);
+      } finally {
+        inFlight--;
+      }
+    },
+    () => stoppedForBudget || fatalError !== null
+  );
+
+  if (fatalError) throw fatalError;
 
-  for (let i = 0; i < cables.length; i++) {
-    const cable = cables[i];
-    console.log(`\n[${i + 1}/${cables.length}]`);
+  // Keep input order regardless of completion order
+  const processed = new Map<string, ExtractionOutput>();
+  completed.forEach((r) => r && processed.set(r.doc_id, r));
+  if (stoppedForBudget) {
+    console.log(`\n💰 Stopped batch: ${cables.length - processed.size} cables not processed`);
+  }
 
-    try {
-      const result = await processCable(cable, options);
+  // Combined outputs also cover cables finished by earlier runs
+  const results: ExtractionOutput[] = [];
+  let carriedOver = 0;
+  for (const cable of selectedCables) {
+    const result = processed.get(cable.doc_nbr);
+    if (result) {
       results.push(result);
-      totalCost += result.metadata.cost_usd;
-
-      // Write JSON output
-      const jsonPath = path.join(options.outputDir!, `${cable.doc_nbr}.json`);
-      fs.writeFileSync(jsonPath, JSON.stringify(result, null, 2));
-
-      // Write Markdown report
-      const mdPath = path.join(options.outputDir!, `${cable.doc_nbr}.md`);
-      const report = generateReport(cable, result);
-      fs.writeFileSync(mdPath, report);
-
-      console.log(`\n📄 Output files:`);
-      console.log(`   - ${jsonPath}`);
-      console.log(`   - ${mdPath}`);
-    } catch (error) {
-      console.error(`\n❌ Error processing ${cable.doc_nbr}:`, error);
+      continue;
+    }
+    const previous = manifest.status(cable.doc_nbr) === 'done' ? readCableOutput(options.outputDir!, cable.doc_nbr) : null;
+    if (previous) {
+      results.push(previous);
+      carriedOver++;
     }
   }
 
   // Write combined outputs
   if (results.length > 0) {
-    // JSONL
-    const jsonlPath = path.join(options.outputDir!, 'extractions.jsonl');
-    const jsonl = results.map((r) => JSON.stringify(r)).join('\n');
-    fs.writeFileSync(jsonlPath, jsonl);
-
-    // Batch summary (if multiple cables)
-    if (results.length > 1) {
-      const summaryPath = path.join(options.outputDir!, 'batch-summary.md');
-      const summary = generateBatchSummary(results);
-      fs.writeFileSync(summaryPath, summary);
-    }
+    // JSONL, and batch summary (if multiple cables)
+    writeCombinedOutputs(options.outputDir!, results);
+    const jsonlPath = path.join(options.outputDir!, JSONL_FILENAME);
 
     // Final summary
     console.log(`
@@ -438,16 +921,23 @@ async function main(): Promise<void> {
 ║                         SUMMARY                                  ║
 ╚══════════════════════════════════════════════════════════════════╝
 `);
-    console.log(`✓ Processed: ${results.length} cables`);
+    console.log(`✓ Processed: ${results.length} cables${carriedOver > 0 ? ` (${carriedOver} from earlier runs)` : ''}`);
     console.log(`✓ Total claims: ${results.reduce((sum, r) => sum + r.claims.length, 0)}`);
     console.log(`✓ Total questions: ${results.reduce((sum, r) => sum + r.questions.length, 0)}`);
     console.log(`✓ Total cost: $${totalCost.toFixed(4)}`);
+    const counts = manifest.counts();
+    console.log(`✓ Manifest: ${counts.done} done, ${counts.failed} failed, ${counts.pending} pending`);
+    if (stoppedForBudget) {
+      console.log(`⚠️  Stopped early: --max-cost $${options.maxCost!.toFixed(4)} reached`);
+    }
     console.log(`\n📁 Output files:`);
     console.log(`   - ${options.outputDir}/<doc_id>.json  (individual JSON)`);
     console.log(`   - ${options.outputDir}/<doc_id>.md    (individual reports)`);
     console.log(`   - ${jsonlPath} (combined JSONL)`);
+    console.log(`   - ${options.outputDir}/${QA_GOLD_FILENAME} (questions with reference answers)`);
+    console.log(`   - ${options.outputDir}/${MANIFEST_FILENAME} (run manifest)`);
     if (results.length > 1) {
-      console.log(`   - ${options.outputDir}/batch-summary.md`);
+      console.log(`   - ${options.outputDir}/${BATCH_SUMMARY_FILENAME}`);
     }
   }
 }
@@ -6,7 +6,10 @@
  * 2. LLM validation (semantic, catches subtle issues)
  */
 
-import type { Claim, Question, LeakageCheckResult } from './types.js';
+import { getEntityRegistry } from './entity-registry.js';
+import { findTimeExpressions, parseTimeExpression, intervalsOverlap, isFinerThan } from './temporal.js';
+import { escapeRegExp } from './text-similarity.js';
+import type { Claim, Question, LeakageCheckResult, SubQuestion } from './types.js';
 
 // =============================================================================
 // Word Lists for Categorization
@@ -63,9 +66,10 @@ export function checkLeakage(question: Question, claim: Claim): LeakageCheckResu
   const cWords = cText.split(/\s+/);
 
   // 1. Check for specific identifiers (not generic actors)
-  const specificOverlap = computeSpecificEntityOverlap(question.question_text, claim.entities);
+  const { count: specificOverlap, aliasHits } = computeSpecificEntityOverlap(question.question_text, claim);
   if (specificOverlap > 0) {
-    issues.push(`Specific identifier leak: ${specificOverlap} specific terms`);
+    const via = aliasHits.length > 0 ? ` (via aliases: ${aliasHits.join(', ')})` : '';
+    issues.push(`Specific identifier leak: ${specificOverlap} specific terms${via}`);
   }
 
   // 2. Check for distinctive phrases (4+ words, not domain vocab)
@@ -74,13 +78,20 @@ export function checkLeakage(question: Question, claim: Claim): LeakageCheckResu
     issues.push(`Distinctive phrase: "${distinctiveMatch.phrase}"`);
   }
 
-  // 3. Check for answer-in-question patterns
-  const answerEmbedded = checkAnswerEmbedded(question.question_text, claim.claim_text);
+  // 3. Check for answer-in-question patterns. An allowed time window is
+  // a hint, so the year in "early 1976" is not an embedded answer.
+  const answerEmbedded = checkAnswerEmbedded(withoutAllowedTimeWindow(question), claim.claim_text);
   if (answerEmbedded.found) {
     issues.push(`Answer embedded: ${answerEmbedded.reason}`);
   }
 
-  // 4. Check banned terms (from the LLM's own list)
+  // 4. Check for the claim's date, at day or month precision
+  const exactDate = checkExactDate(question.question_text, claim);
+  if (exactDate) {
+    issues.push(`Exact date: "${exactDate}" falls within the claim's ${claim.time_interval!.granularity}`);
+  }
+
+  // 5. Check banned terms (from the LLM's own list)
   const bannedFound = checkBannedTerms(question.question_text, question.banned_terms);
   if (bannedFound.length > 0) {
     // Filter out generic terms from banned list
@@ -94,7 +105,7 @@ export function checkLeakage(question: Question, claim: Claim): LeakageCheckResu
   const score = computeLeakageScore(
     specificOverlap,
     distinctiveMatch.found,
-    answerEmbedded.found,
+    answerEmbedded.found || exactDate !== null,
     bannedFound.filter(t => !isGenericTerm(t)).length
   );
 
@@ -111,7 +122,7 @@ export function checkLeakage(question: Question, claim: Claim): LeakageCheckResu
 // Entity Categorization
 // =============================================================================
 
-function isGenericTerm(term: string): boolean {
+export function isGenericTerm(term: string): boolean {
   const lower = term.toLowerCase();
 
   // Check against our word lists
@@ -131,11 +142,18 @@ function isGenericTerm(term: string): boolean {
   return false;
 }
 
-function computeSpecificEntityOverlap(questionText: string, entities: string[]): number {
+/**
+ * Count the claim's specific entities named in the question, either as the
+ * claim's own surface form or as any registry alias of the same entity
+ * ("Taiwan" for a claim about "GROC")
+ */
+function computeSpecificEntityOverlap(questionText: string, claim: Claim): { count: number; aliasHits: string[] } {
   const qLower = questionText.toLowerCase();
+  const registry = getEntityRegistry();
   let overlap = 0;
+  const aliasHits: string[] = [];
 
-  for (const entity of entities) {
+  for (const entity of claim.entities) {
     if (entity.length < 3) continue;
 
     // Skip generic terms
@@ -144,10 +162,21 @@ function computeSpecificEntityOverlap(questionText: string, entities: string[]):
     // Check if entity appears in question
     if (qLower.includes(entity.toLowerCase())) {
       overlap++;
+      continue;
+    }
+
+    // Other names for the same entity; aliases must match whole words
+    const record = registry.lookup(entity);
+    const alias = record?.aliases.find(
+      (a) => a.length >= 2 && !isGenericTerm(a) && new RegExp(`\\b${escapeRegExp(a.toLowerCase())}\\b`).test(qLower)
+    );
+    if (alias) {
+      overlap++;
+      aliasHits.push(`${alias} = ${entity}`);
     }
   }
 
-  return overlap;
+  return { count: overlap, aliasHits };
 }
 
 // =============================================================================
@@ -181,6 +210,15 @@ function hasDistinctivePhrase(qWords: string[], cWords: string[]): { found: bool
 // Answer-in-Question Detection
 // =============================================================================
 
+/**
+ * The question text without its time window, when it may hint at time
+ */
+function withoutAllowedTimeWindow(question: Question): string {
+  const window = question.time_window;
+  if (!window || !question.allowed_hints.includes('time_window')) return question.question_text;
+  return question.question_text.replace(new RegExp(escapeRegExp(window), 'gi'), ' ');
+}
+
 function checkAnswerEmbedded(question: string, claim: string): { found: boolean; reason: string } {
   const qLower = question.toLowerCase();
   const cLower = claim.toLowerCase();
@@ -214,6 +252,25 @@ function checkAnswerEmbedded(question: string, claim: string): { found: boolean;
   return { found: false, reason: '' };
 }
 
+/**
+ * A date in the question, as precise as a day or month, that falls within
+ * the claim's normalized interval ("What happened on 30 September 1975?")
+ */
+function checkExactDate(question: string, claim: Claim): string | null {
+  const claimInterval = claim.time_interval;
+  if (!claimInterval?.start || claimInterval.issues?.length) return null;
+  if (!isFinerThan(claimInterval.granularity, 'quarter')) return null;
+
+  for (const expression of findTimeExpressions(question)) {
+    // Anchor on the claim so a date without a year takes the claim's year
+    const mentioned = parseTimeExpression(expression, claimInterval);
+    if (mentioned && isFinerThan(mentioned.granularity, 'quarter') && intervalsOverlap(mentioned, claimInterval)) {
+      return expression;
+    }
+  }
+  return null;
+}
+
 function computeWordOverlap(words1: string[], words2: string[]): number {
   const set1 = new Set(words1.filter(w => !isStopWord(w)));
   const set2 = new Set(words2.filter(w => !isStopWord(w)));
@@ -290,30 +347,74 @@ function checkBannedTerms(text: string, bannedTerms: string[]): string[] {
 
 export function checkAllLeakage(questions: Question[], claims: Claim[]): Question[] {
   const claimMap = new Map(claims.map((c) => [c.claim_id, c]));
+  return questions.map((q) => withLeakageScore(q, claimMap));
+}
 
-  return questions.map((q) => {
-    const targetIds = q.targets_claim_ids || [q.targets_claim_id];
-    const targetClaims = targetIds
-      .map((id) => claimMap.get(id))
-      .filter((c): c is Claim => c !== undefined);
+/**
+ * Set leakage_score on a question and on each of its sub-questions
+ */
+export function withLeakageScore(question: Question, claimMap: Map<string, Claim>): Question {
+  const scored = { ...question, leakage_score: checkQuestionLeakage(question, claimMap).score };
+  if (question.sub_questions) {
+    scored.sub_questions = question.sub_questions.map((s) => ({
+      ...s,
+      leakage_score: checkSubQuestionLeakage(question, s, claimMap)?.score ?? 0,
+    }));
+  }
+  return scored;
+}
 
-    if (targetClaims.length === 0) {
-      return { ...q, leakage_score: 0 };
-    }
+/**
+ * Check a question against all of its target claims: the highest score,
+ * discounted for the broader styles, and every issue found (prefixed with
+ * the claim ID when there are several targets). A multi-hop question is
+ * only as safe as its leakiest sub-question, each checked against its own
+ * claim, so their scores and issues count too.
+ */
+export function checkQuestionLeakage(question: Question, claimMap: Map<string, Claim>): { score: number; issues: string[] } {
+  const targetIds = question.targets_claim_ids || [question.targets_claim_id];
+  const targetClaims = targetIds
+    .map((id) => claimMap.get(id))
+    .filter((c): c is Claim => c !== undefined);
+
+  // Check against all target claims, take max
+  let maxScore = 0;
+  const issues: string[] = [];
+  for (const claim of targetClaims) {
+    const result = checkLeakage(question, claim);
+    maxScore = Math.max(maxScore, result.score);
+    issues.push(...result.issues.map((issue) => (targetClaims.length > 1 ? `${claim.claim_id}: ${issue}` : issue)));
+  }
 
-    // Check against all target claims, take max
-    let maxScore = 0;
-    for (const claim of targetClaims) {
-      const result = checkLeakage(q, claim);
-      maxScore = Math.max(maxScore, result.score);
-    }
+  // Contextual/thematic questions are intentionally broader; multi-hop
+  // questions are checked in full, like targeted ones
+  const styleDiscount = question.question_style === 'targeted' || question.question_style === 'multi_hop' ? 1.0 : 0.6;
+  let score = maxScore * styleDiscount;
 
-    // Contextual/thematic questions are intentionally broader
-    const styleDiscount = q.question_style === 'targeted' ? 1.0 : 0.6;
-    const adjustedScore = maxScore * styleDiscount;
+  for (const sub of question.sub_questions || []) {
+    const result = checkSubQuestionLeakage(question, sub, claimMap);
+    if (!result) continue;
+    score = Math.max(score, result.score);
+    issues.push(...result.issues.map((issue) => `${sub.question_id}: ${issue}`));
+  }
+  return { score, issues };
+}
 
-    return { ...q, leakage_score: adjustedScore };
-  });
+function checkSubQuestionLeakage(question: Question, sub: SubQuestion, claimMap: Map<string, Claim>): LeakageCheckResult | null {
+  const claim = claimMap.get(sub.claim_id);
+  if (!claim) return null;
+  const { sub_questions, ...parent } = question;
+  return checkLeakage(
+    {
+      ...parent,
+      question_id: sub.question_id,
+      question_text: sub.question_text,
+      answer_type: sub.answer_type,
+      targets_claim_id: sub.claim_id,
+      targets_claim_ids: [sub.claim_id],
+    },
+    claim
+  );
 }
 
 export function filterLowLeakage(questions: Question[], threshold = 0.3): Question[] {
@@ -0,0 +1,150 @@
+/**
+ * Record/replay cache for LLM responses
+ *
+ * Responses are stored on disk, content-addressed by a hash of everything
+ * that determines the output: model, system prompt, user prompt, schema
+ * and temperature, plus the sample number for repeated runs of the same
+ * prompt. Modes:
+ * - read:        Serve hits from the cache, call the LLM on a miss and record it
+ * - write:       Always call the LLM and (re)record the response
+ * - replay-only: Never call the LLM; a miss is a hard error
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { LLMProvider } from './llm-provider.js';
+import type { LLMResponse } from './types.js';
+
+export type CacheMode = 'read' | 'write' | 'replay-only';
+
+export const CACHE_MODES: CacheMode[] = ['read', 'write', 'replay-only'];
+
+export interface CacheOptions {
+  mode: CacheMode;
+  dir: string;
+}
+
+interface CacheEntry {
+  key: string;
+  model: string;
+  temperature: number;
+  sample?: number;
+  system_prompt: string;
+  user_prompt: string;
+  schema: object | null;
+  response: LLMResponse;
+  recorded_at: string;
+}
+
+export class CacheMissError extends Error {
+  constructor(
+    readonly key: string,
+    readonly model: string
+  ) {
+    super(`LLM cache miss in replay-only mode (model ${model}, key ${key.slice(0, 12)})`);
+    this.name = 'CacheMissError';
+  }
+}
+
+let cacheOptions: CacheOptions | null = null;
+
+export function configureCache(options: CacheOptions | null): void {
+  cacheOptions = options;
+}
+
+export function getCacheMode(): CacheMode | null {
+  return cacheOptions?.mode ?? null;
+}
+
+export function parseCacheMode(value: string): CacheMode {
+  if (!CACHE_MODES.includes(value as CacheMode)) {
+    throw new Error(`Unknown cache mode "${value}" (expected ${CACHE_MODES.join(', ')})`);
+  }
+  return value as CacheMode;
+}
+
+/**
+ * Wrap a provider with the configured cache (no-op when caching is off).
+ * `sample` keeps repeated runs of the same prompt apart.
+ */
+export function withCache(provider: LLMProvider, sample?: number): LLMProvider {
+  if (!cacheOptions) return provider;
+  return new CachingProvider(provider, cacheOptions, sample);
+}
+
+export function computeCacheKey(
+  model: string,
+  temperature: number,
+  systemPrompt: string,
+  userPrompt: string,
+  schema?: object,
+  sample?: number
+): string {
+  const material = JSON.stringify({
+    model,
+    temperature,
+    system: systemPrompt,
+    user: userPrompt,
+    schema: schema ?? null,
+    // Only present for samples, so other keys are unchanged
+    ...(sample !== undefined ? { sample } : {}),
+  });
+  return crypto.createHash('sha256').update(material).digest('hex');
+}
+
+class CachingProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly temperature: number;
+
+  constructor(
+    private inner: LLMProvider,
+    private options: CacheOptions,
+    private sample?: number
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.temperature = inner.temperature;
+  }
+
+  async generateJSON<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema?: object
+  ): Promise<{ data: T; response: LLMResponse }> {
+    const key = computeCacheKey(this.model, this.temperature, systemPrompt, userPrompt, schema, this.sample);
+    const entryPath = path.join(this.options.dir, key.slice(0, 2), `${key}.json`);
+
+    if (this.options.mode !== 'write' && fs.existsSync(entryPath)) {
+      const entry = JSON.parse(fs.readFileSync(entryPath, 'utf-8')) as CacheEntry;
+      return { data: JSON.parse(entry.response.content) as T, response: entry.response };
+    }
+
+    if (this.options.mode === 'replay-only') {
+      throw new CacheMissError(key, this.model);
+    }
+
+    const result = await this.inner.generateJSON<T>(systemPrompt, userPrompt, schema);
+
+    const entry: CacheEntry = {
+      key,
+      model: this.model,
+      temperature: this.temperature,
+      ...(this.sample !== undefined ? { sample: this.sample } : {}),
+      system_prompt: systemPrompt,
+      user_prompt: userPrompt,
+      schema: schema ?? null,
+      response: result.response,
+      recorded_at: new Date().toISOString(),
+    };
+
+    // Write via a temp file so an interrupted run never leaves a half-written entry
+    fs.mkdirSync(path.dirname(entryPath), { recursive: true });
+    const tmpPath = `${entryPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(entry, null, 2));
+    fs.renameSync(tmpPath, entryPath);
+
+    return result;
+  }
+}
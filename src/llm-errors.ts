@@ -0,0 +1,20 @@
+/**
+ * Errors raised by LLM providers that callers are expected to handle
+ */
+
+import type { LLMResponse } from './types.js';
+
+/**
+ * The model stopped because it hit the output token limit, so the JSON is
+ * incomplete. Retrying the same request would fail the same way; callers
+ * should shrink the request instead (split the cable or the claim list).
+ */
+export class TruncatedResponseError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly response: LLMResponse  // Tokens/cost spent on the truncated call
+  ) {
+    super(`${provider} response truncated at the output token limit (${response.completion_tokens} completion tokens)`);
+    this.name = 'TruncatedResponseError';
+  }
+}
@@ -5,8 +5,10 @@
  * Run as a batch operation after rule-based checks.
  */
 
-import { getGeminiClient } from './gemini.js';
-import type { Question, Claim, LLMResponse } from './types.js';
+import { getLLMProvider } from './llm-provider.js';
+import { BATCH_VALIDATION_SCHEMA } from './schemas.js';
+import { combineResponses, generateStructured } from './structured-output.js';
+import type { Question, Claim, LLMResponse, ValidationResult, BatchValidationResponse } from './types.js';
 
 const VALIDATION_PROMPT = `You are evaluating retrieval questions for "leakage" - whether they give away their own answers.
 
@@ -26,17 +28,6 @@ For each question-claim pair, you will evaluate and return a JSON verdict.
 
 IMPORTANT: Be lenient with generic diplomatic terms. Words like "U.S.", "NATO", "allies", "proposal", "modification", "air manpower", "ground forces" are domain vocabulary, NOT leakage.`;
 
-interface ValidationResult {
-  question_id: string;
-  verdict: 'OK' | 'LEAK';
-  confidence: 'high' | 'medium' | 'low';
-  reason: string;
-}
-
-interface BatchValidationResponse {
-  results: ValidationResult[];
-}
-
 /**
  * Validate a batch of questions using LLM
  */
@@ -44,7 +35,7 @@ export async function validateLeakageBatch(
   questions: Question[],
   claims: Claim[]
 ): Promise<{ results: Map<string, ValidationResult>; response: LLMResponse }> {
-  const client = getGeminiClient();
+  const client = getLLMProvider('validation');
   const claimMap = new Map(claims.map((c) => [c.claim_id, c]));
 
   // Format questions for the prompt
@@ -80,9 +71,12 @@ Return JSON ONLY in this format:
   ]
 }`;
 
-  const { data, response } = await client.generateJSON<BatchValidationResponse>(
+  const { data, response } = await generateStructured<BatchValidationResponse>(
+    client,
     VALIDATION_PROMPT,
-    userPrompt
+    userPrompt,
+    BATCH_VALIDATION_SCHEMA,
+    { label: 'validation' }
   );
 
   // Convert to map
@@ -130,7 +124,7 @@ export function applyValidationResults(
     return {
       ...q,
       leakage_score: adjustedScore,
-      // Store validation result in a new field (extend type if needed)
+      validation: { verdict: result.verdict, confidence: result.confidence, reason: result.reason },
     };
   });
 }
@@ -167,24 +161,29 @@ export async function runLeakageValidation(
 
   // Run validation in batches of 25
   const BATCH_SIZE = 25;
-  const allResults = new Map<string, ValidationResult>();
-  let totalTokens = 0;
-  let totalCost = 0;
-
+  const batches: Question[][] = [];
   for (let i = 0; i < questionsToValidate.length; i += BATCH_SIZE) {
-    const batch = questionsToValidate.slice(i, i + BATCH_SIZE);
-    const { results, response } = await validateLeakageBatch(batch, claims);
+    batches.push(questionsToValidate.slice(i, i + BATCH_SIZE));
+  }
 
+  // Batches are independent, so validate them concurrently
+  const batchResults = await Promise.all(
+    batches.map(async (batch, idx) => {
+      const result = await validateLeakageBatch(batch, claims);
+      if (batches.length > 1) {
+        console.log(`    Batch ${idx + 1}/${batches.length} complete...`);
+      }
+      return result;
+    })
+  );
+
+  const allResults = new Map<string, ValidationResult>();
+  const responses: LLMResponse[] = [];
+  for (const { results, response } of batchResults) {
     for (const [id, result] of results) {
       allResults.set(id, result);
     }
-
-    totalTokens += response.tokens;
-    totalCost += response.cost_usd;
-
-    if (i + BATCH_SIZE < questionsToValidate.length) {
-      console.log(`    Batch ${Math.floor(i / BATCH_SIZE) + 1} complete...`);
-    }
+    responses.push(response);
   }
 
   // Apply results
@@ -196,13 +195,7 @@ export async function runLeakageValidation(
   return {
     validatedQuestions,
     report,
-    response: {
-      content: '',
-      tokens: totalTokens,
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      cost_usd: totalCost,
-    },
+    response: combineResponses(responses),
   };
 }
 
@@ -0,0 +1,153 @@
+/**
+ * Pluggable LLM providers
+ *
+ * Every pipeline stage asks for a provider by stage name instead of
+ * talking to a specific vendor client. Providers are configured once
+ * from the CLI (see configureProviders) and created lazily.
+ */
+
+import { GeminiClient } from './gemini.js';
+import { getCacheMode, withCache } from './llm-cache.js';
+import { OpenAICompatibleClient } from './openai-provider.js';
+import { createFakeProvider } from './fake-llm.js';
+import { withBudget } from './cost-ledger.js';
+import { getRateLimiter } from './concurrency.js';
+import type { LLMResponse, LLMStage } from './types.js';
+
+export type { LLMStage };
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly temperature: number;
+  generateJSON<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema?: object
+  ): Promise<{ data: T; response: LLMResponse }>;
+}
+
+export type ProviderName = 'gemini' | 'openai' | 'fake';
+
+export const LLM_STAGES: LLMStage[] = [
+  'claims',
+  'entities',
+  'verification',
+  'relations',
+  'targeted',
+  'contextual',
+  'thematic',
+  'multi_hop',
+  'validation',
+  'regeneration',
+  'coverage',
+  'chains',
+  'ladder',
+  'matching',
+  'grading',
+];
+
+export const QUESTION_STAGES: LLMStage[] = ['targeted', 'contextual', 'thematic', 'multi_hop', 'coverage'];
+
+export interface ProviderSpec {
+  provider: ProviderName;
+  model?: string;
+}
+
+const DEFAULT_SPEC: ProviderSpec = { provider: 'gemini' };
+
+let stageSpecs: Partial<Record<LLMStage, ProviderSpec>> = {};
+const providerCache = new Map<string, LLMProvider>();
+
+/**
+ * Parse a "provider[:model]" string, e.g. "openai:gpt-4o-mini" or "gemini".
+ * Only the first colon separates provider from model, so model names
+ * such as "llama3:8b" survive intact.
+ */
+export function parseProviderSpec(value: string): ProviderSpec {
+  const sep = value.indexOf(':');
+  const provider = (sep === -1 ? value : value.slice(0, sep)).trim();
+  const model = sep === -1 ? undefined : value.slice(sep + 1).trim() || undefined;
+
+  if (provider !== 'gemini' && provider !== 'openai' && provider !== 'fake') {
+    throw new Error(`Unknown LLM provider "${provider}" (expected gemini, openai or fake)`);
+  }
+
+  return { provider, model };
+}
+
+/**
+ * Set the provider/model used by each stage. Stages not listed fall back to Gemini.
+ */
+export function configureProviders(specs: Partial<Record<LLMStage, ProviderSpec>>): void {
+  stageSpecs = { ...specs };
+}
+
+export function getLLMProvider(stage: LLMStage): LLMProvider {
+  const spec = stageSpecs[stage] || DEFAULT_SPEC;
+  // Fake providers answer from per-stage fixtures, so they can't be shared across stages
+  const key = spec.provider === 'fake' ? `fake:${stage}` : `${spec.provider}:${spec.model || ''}`;
+
+  let provider = providerCache.get(key);
+  if (!provider) {
+    // Budget sits inside the cache so replayed responses aren't charged
+    provider = withCache(withBudget(createProvider(spec, stage)));
+    providerCache.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * The stage's provider at a sampling temperature, for repeated runs of the
+ * same prompt (see self-consistency.ts). Each sample is cached under its
+ * own key, so the runs stay independent when replayed.
+ */
+export function getSamplingProvider(stage: LLMStage, temperature: number, sample: number): LLMProvider {
+  const spec = stageSpecs[stage] || DEFAULT_SPEC;
+  const base = spec.provider === 'fake' ? `fake:${stage}` : `${spec.provider}:${spec.model || ''}`;
+  const key = `${base}@${temperature}#${sample}`;
+
+  let provider = providerCache.get(key);
+  if (!provider) {
+    provider = withCache(withBudget(createProvider(spec, stage, temperature)), sample);
+    providerCache.set(key, provider);
+  }
+  return provider;
+}
+
+function createProvider(spec: ProviderSpec, stage: LLMStage, temperature?: number): LLMProvider {
+  switch (spec.provider) {
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY;
+      // Replaying from the cache never reaches the API, so no key is needed
+      if (!apiKey && getCacheMode() !== 'replay-only') {
+        throw new Error('GEMINI_API_KEY environment variable is required');
+      }
+      return new GeminiClient({ apiKey: apiKey || '', model: spec.model, temperature, limiter: getRateLimiter() });
+    }
+    case 'openai':
+      return new OpenAICompatibleClient({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL,
+        model: spec.model || process.env.OPENAI_MODEL,
+        temperature,
+        limiter: getRateLimiter(),
+      });
+    case 'fake':
+      return createFakeProvider(stage, temperature);
+  }
+}
+
+/**
+ * Describe the models used by the given stages, e.g. "gemini-2.5-flash"
+ * or "gemini-2.5-flash, openai:qwen2.5-32b" when stages differ.
+ */
+export function describeModels(stages: LLMStage[]): string {
+  const labels: string[] = [];
+  for (const stage of stages) {
+    const provider = getLLMProvider(stage);
+    const label = provider.name === 'gemini' ? provider.model : `${provider.name}:${provider.model}`;
+    if (!labels.includes(label)) labels.push(label);
+  }
+  return labels.join(', ');
+}
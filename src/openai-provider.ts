@@ -0,0 +1,160 @@
+/**
+ * OpenAI-compatible chat completions client with JSON mode support
+ *
+ * Works against api.openai.com and any server exposing the same
+ * /chat/completions endpoint (llama.cpp server, vLLM, Ollama, ...).
+ */
+
+import { TruncatedResponseError } from './llm-errors.js';
+import { computeCost } from './pricing.js';
+import { estimateTokens, retryDelay } from './concurrency.js';
+import type { RateLimiter } from './concurrency.js';
+import type { LLMProvider } from './llm-provider.js';
+import type { LLMResponse } from './types.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const MAX_RETRIES = 3;
+const REQUEST_TIMEOUT_MS = 120000;
+
+export interface OpenAICompatibleConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  limiter?: RateLimiter;  // Shared limiter; 429s then pause every caller
+}
+
+export class OpenAICompatibleClient implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly temperature: number;
+  private apiKey?: string;
+  private baseUrl: string;
+  private maxOutputTokens: number;
+  private limiter?: RateLimiter;
+
+  constructor(config: OpenAICompatibleConfig = {}) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.model = config.model || 'gpt-4o-mini';
+    this.temperature = config.temperature ?? 0.3;
+    this.maxOutputTokens = config.maxOutputTokens || 16384;
+    this.limiter = config.limiter;
+  }
+
+  async generateJSON<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema?: object
+  ): Promise<{ data: T; response: LLMResponse }> {
+    const url = `${this.baseUrl}/chat/completions`;
+
+    const requestBody: Record<string, unknown> = {
+      model: this.model,
+      temperature: this.temperature,
+      max_tokens: this.maxOutputTokens,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      response_format: schema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema } }
+        : { type: 'json_object' },
+    };
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    let lastError: Error | null = null;
+
+    const estimatedTokens = estimateTokens(systemPrompt, userPrompt);
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      await this.limiter?.acquire(estimatedTokens);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+      try {
+        if (attempt > 0) {
+          console.log(`  [OpenAI] Retry ${attempt}/${MAX_RETRIES}...`);
+        }
+
+        const response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(requestBody),
+          signal: controller.signal,
+        });
+
+        clearTimeout(timeoutId);
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error(`  [OpenAI] Error ${response.status}: ${errorText.slice(0, 200)}`);
+          // Kept for the final error if the retries run out
+          lastError = new Error(`OpenAI-compatible API error (${response.status}): ${errorText}`);
+
+          if (response.status === 429 && this.limiter) {
+            const delay = retryDelay(attempt);
+            console.log(`  [OpenAI] Rate limited, pausing all requests for ${delay}ms...`);
+            this.limiter.backoff(delay);
+            continue;
+          }
+          if (response.status === 429 || response.status >= 500) {
+            const delay = retryDelay(attempt);
+            console.log(`  [OpenAI] Rate limited, waiting ${delay}ms...`);
+            await new Promise((r) => setTimeout(r, delay));
+            continue;
+          }
+          throw lastError;
+        }
+
+        const data = (await response.json()) as Record<string, unknown>;
+
+        const choices = data.choices as Array<Record<string, unknown>> | undefined;
+        const message = choices?.[0]?.message as Record<string, unknown> | undefined;
+        const content = (message?.content as string) || '';
+
+        const usage = (data.usage as Record<string, number>) || {};
+        const promptTokens = usage.prompt_tokens || 0;
+        const completionTokens = usage.completion_tokens || 0;
+        const totalTokens = usage.total_tokens || promptTokens + completionTokens;
+        this.limiter?.settle(estimatedTokens, totalTokens);
+
+        const llmResponse: LLMResponse = {
+          content,
+          tokens: totalTokens,
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          cost_usd: computeCost(this.model, promptTokens, completionTokens),
+        };
+
+        // finish_reason "length" means the JSON is cut off; don't retry the same request
+        if (choices?.[0]?.finish_reason === 'length') {
+          throw new TruncatedResponseError('OpenAI-compatible', llmResponse);
+        }
+
+        // Parse JSON
+        const parsed = JSON.parse(content) as T;
+
+        return { data: parsed, response: llmResponse };
+      } catch (error) {
+        clearTimeout(timeoutId);
+        if (error instanceof TruncatedResponseError) throw error;
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (attempt < MAX_RETRIES) {
+          const delay = retryDelay(attempt);
+          console.log(`  [OpenAI] Error: ${lastError.message.slice(0, 100)}, retrying in ${delay}ms...`);
+          await new Promise((r) => setTimeout(r, delay));
+        }
+      }
+    }
+
+    throw lastError || new Error('OpenAI-compatible request failed');
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Reading and writing the per-cable and combined output files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { generateReport, generateBatchSummary } from './report-generator.js';
+import { allQuestions } from './hint-ladder.js';
+import type { Cable, ExtractionOutput } from './types.js';
+
+export const JSONL_FILENAME = 'extractions.jsonl';
+export const BATCH_SUMMARY_FILENAME = 'batch-summary.md';
+export const QA_GOLD_FILENAME = 'qa-gold.jsonl';
+
+/**
+ * Write {doc_id}.json and {doc_id}.md, returning their paths
+ */
+export function writeCableOutputs(
+  outputDir: string,
+  cable: Cable,
+  result: ExtractionOutput
+): { jsonPath: string; mdPath: string } {
+  const jsonPath = path.join(outputDir, `${result.doc_id}.json`);
+  fs.writeFileSync(jsonPath, JSON.stringify(result, null, 2));
+
+  const mdPath = path.join(outputDir, `${result.doc_id}.md`);
+  fs.writeFileSync(mdPath, generateReport(cable, result));
+
+  return { jsonPath, mdPath };
+}
+
+/**
+ * Write extractions.jsonl and qa-gold.jsonl, plus batch-summary.md when
+ * there are several cables
+ */
+export function writeCombinedOutputs(outputDir: string, results: ExtractionOutput[]): string[] {
+  const written: string[] = [];
+
+  const jsonlPath = path.join(outputDir, JSONL_FILENAME);
+  fs.writeFileSync(jsonlPath, results.map((r) => JSON.stringify(r)).join('\n'));
+  written.push(jsonlPath);
+
+  // One line per question (and hint ladder variant) with a reference answer
+  const goldPath = path.join(outputDir, QA_GOLD_FILENAME);
+  const goldLines = results.flatMap((r) =>
+    allQuestions(r)
+      .filter((q) => q.reference_answer)
+      .map((q) =>
+        JSON.stringify({
+          doc_id: r.doc_id,
+          question_id: q.question_id,
+          question_text: q.question_text,
+          question_style: q.question_style,
+          answer_type: q.answer_type,
+          ...(q.hint_level !== undefined ? { hint_level: q.hint_level, allowed_hints: q.allowed_hints } : {}),
+          leakage_score: q.leakage_score,
+          reference_answer: q.reference_answer,
+        })
+      )
+  );
+  fs.writeFileSync(goldPath, goldLines.join('\n'));
+  written.push(goldPath);
+
+  if (results.length > 1) {
+    const summaryPath = path.join(outputDir, BATCH_SUMMARY_FILENAME);
+    fs.writeFileSync(summaryPath, generateBatchSummary(results));
+    written.push(summaryPath);
+  }
+
+  return written;
+}
+
+export function readCableOutput(outputDir: string, docId: string): ExtractionOutput | null {
+  const jsonPath = path.join(outputDir, `${docId}.json`);
+  if (!fs.existsSync(jsonPath)) return null;
+  return JSON.parse(fs.readFileSync(jsonPath, 'utf-8')) as ExtractionOutput;
+}
+
+/**
+ * Every {doc_id}.json in the directory, sorted by doc_id. Other JSON files
+ * (e.g. the run manifest) are skipped.
+ */
+export function readAllCableOutputs(outputDir: string): ExtractionOutput[] {
+  if (!fs.existsSync(outputDir)) return [];
+
+  const outputs: ExtractionOutput[] = [];
+  for (const file of fs.readdirSync(outputDir).filter((f) => f.endsWith('.json')).sort()) {
+    const parsed = JSON.parse(fs.readFileSync(path.join(outputDir, file), 'utf-8')) as Partial<ExtractionOutput>;
+    if (typeof parsed.doc_id === 'string' && Array.isArray(parsed.claims) && Array.isArray(parsed.questions)) {
+      outputs.push(parsed as ExtractionOutput);
+    }
+  }
+  return outputs;
+}
+
+/**
+ * The cable an output was produced from. Outputs written before the cable
+ * was stored only have its metadata, so the body is empty.
+ */
+export function cableFromOutput(output: ExtractionOutput): Cable {
+  return output.cable || {
+    doc_nbr: output.doc_id,
+    subject: output.doc_subject,
+    date: output.doc_date || '',
+    body: '',
+  };
+}
@@ -0,0 +1,451 @@
+/**
+ * Pipeline stages
+ *
+ * Each stage takes the claims/questions produced by the earlier stages and
+ * returns its own result, charging LLM usage to the cable's CostLedger.
+ * The full pipeline (processCable) runs them in order; the stage
+ * subcommands (stage-commands.ts) re-run one of them over saved outputs.
+ */
+
+import { extractClaims, formatClaims } from './extract-claims.js';
+import { extractClaimsWithConsensus } from './self-consistency.js';
+import { generateQuestions, formatQuestions } from './generate-questions.js';
+import { checkAllLeakage, generateLeakageReport, getHighLeakageQuestions } from './leakage-checker.js';
+import { runLeakageValidation } from './llm-leakage-validator.js';
+import { regenerateLeakyQuestions } from './question-regeneration.js';
+import { ensureCoverage } from './coverage.js';
+import { buildQueryChains, rescoreQueryChains } from './query-chains.js';
+import { buildHintLadders, describeHintLevel, rescoreHintLadders } from './hint-ladder.js';
+import { withReferenceAnswers } from './reference-answers.js';
+import { filterSupportedClaims, runClaimVerification } from './claim-verifier.js';
+import { resolveEntities } from './entity-resolver.js';
+import { getEntityRegistry, linkKnownEntities } from './entity-registry.js';
+import { extractClaimRelations, formatRelation, relationsAmong, RELATION_TYPES } from './claim-relations.js';
+import type { CostLedger } from './cost-ledger.js';
+import type { Cable, Claim, ClaimRelation, CoverageSummary, HintLadder, Question, QueryChain, QuestionStyle } from './types.js';
+
+export interface StageOptions {
+  styles?: QuestionStyle[];
+  verbose?: boolean;
+  samples?: number;       // Extraction runs for self-consistency (default: 1)
+  minAgreement?: number;  // Runs that must find a claim to keep it
+  sampleTemperature?: number;  // Sampling temperature of the self-consistency runs
+  maxAttempts?: number;   // Rewrites per high-leakage question, generations per query chain (default: 3)
+  validateLeakage?: boolean;  // Also LLM-validate rewritten questions
+  regenerate?: boolean;       // Also rewrite leaky coverage follow-ups
+  minImportance?: number;     // Claims that must have a usable question, and that get query chains and hint ladders (default: 4)
+  resolveEntities?: boolean;  // Resolve mentions the registry doesn't know with the LLM
+}
+
+/**
+ * Extract claims from the cable body
+ */
+export async function runClaimsStage(
+  cable: Cable,
+  ledger: CostLedger,
+  options: StageOptions = {}
+): Promise<Claim[]> {
+  const { claims, response } =
+    options.samples && options.samples > 1
+      ? await extractClaimsWithConsensus(cable, {
+          samples: options.samples,
+          minAgreement: options.minAgreement,
+          temperature: options.sampleTemperature,
+        })
+      : await extractClaims(cable);
+  ledger.record('claims', response);
+
+  console.log(`   ✓ Found ${claims.length} claims`);
+  console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+
+  // Show claim breakdown
+  const claimTypes = new Map<string, number>();
+  for (const c of claims) {
+    claimTypes.set(c.claim_type, (claimTypes.get(c.claim_type) || 0) + 1);
+  }
+  const breakdown = [...claimTypes.entries()].map(([t, n]) => `${t}:${n}`).join(', ');
+  console.log(`   ✓ Types: ${breakdown}`);
+
+  if (options.verbose) {
+    console.log(formatClaims(claims));
+  }
+
+  return claims;
+}
+
+/**
+ * Link claim entities to canonical registry entries. Mentions the registry
+ * doesn't know are only resolved with the LLM under resolveEntities.
+ */
+export async function runEntitiesStage(
+  cable: Cable,
+  claims: Claim[],
+  ledger: CostLedger,
+  options: StageOptions = {}
+): Promise<Claim[]> {
+  if (!options.resolveEntities) {
+    const linked = claims.map((c) => linkKnownEntities(c));
+    const unknown = new Set(linked.flatMap((l) => l.unknown)).size;
+    const ids = new Set(linked.flatMap((l) => l.claim.entity_ids || [])).size;
+    console.log(`   ✓ Linked ${ids} known entities (${unknown} unknown mentions left unresolved; registry: ${getEntityRegistry().size})`);
+    return linked.map((l) => l.claim);
+  }
+
+  const { resolvedClaims, response, added, aliased } = await resolveEntities(claims, cable);
+  ledger.record('entities', response);
+
+  const linked = new Set(resolvedClaims.flatMap((c) => c.entity_ids || [])).size;
+  console.log(`   ✓ Linked ${linked} entities (${added} new, ${aliased} new aliases; registry: ${getEntityRegistry().size})`);
+  if (response.tokens > 0) {
+    console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+  }
+
+  return resolvedClaims;
+}
+
+/**
+ * Judge each claim's faithfulness to the cable body
+ */
+export async function runVerificationStage(
+  cable: Cable,
+  claims: Claim[],
+  ledger: CostLedger,
+  options: StageOptions = {}
+): Promise<Claim[]> {
+  const { verifiedClaims, report, response } = await runClaimVerification(claims, cable);
+  ledger.record('verification', response);
+
+  const count = (verdict: string) => verifiedClaims.filter((c) => c.verification?.verdict === verdict).length;
+  console.log(`   ✓ Supported: ${count('supported')} | Partially: ${count('partially_supported')} | Unsupported: ${count('unsupported')}`);
+  console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+
+  if (options.verbose) {
+    console.log('\n' + report);
+  }
+
+  return verifiedClaims;
+}
+
+/**
+ * Label the relations between the cable's claims
+ */
+export async function runRelationsStage(
+  cable: Cable,
+  claims: Claim[],
+  ledger: CostLedger,
+  options: StageOptions = {}
+): Promise<ClaimRelation[]> {
+  const { relations, response } = await extractClaimRelations(claims, cable);
+  ledger.record('relations', response);
+
+  const counts = RELATION_TYPES.map((type) => [type, relations.filter((r) => r.type === type).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([type, n]) => `${type}:${n}`);
+  console.log(`   ✓ Found ${relations.length} relations${counts.length > 0 ? ` (${counts.join(', ')})` : ''}`);
+  if (response.tokens > 0) {
+    console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+  }
+
+  if (options.verbose) {
+    for (const relation of relations) {
+      console.log(`     ${formatRelation(relation)}${relation.reason ? ` (${relation.reason})` : ''}`);
+    }
+  }
+
+  return relations;
+}
+
+/**
+ * Generate questions for the claims (leakage scores are not yet set).
+ * Claims verified as unsupported are skipped.
+ */
+export async function runQuestionsStage(
+  cable: Cable,
+  claims: Claim[],
+  ledger: CostLedger,
+  options: StageOptions = {},
+  relations: ClaimRelation[] = []
+): Promise<Question[]> {
+  const usable = filterSupportedClaims(claims);
+  if (usable.length < claims.length) {
+    console.log(`   ✓ Skipping ${claims.length - usable.length} unsupported claims`);
+  }
+
+  const { questions, response, styleResponses } = await generateQuestions(usable, {
+    cableContext: cable,
+    styles: options.styles,
+    relations: relationsAmong(relations, usable),
+  });
+  for (const [style, styleResponse] of Object.entries(styleResponses)) {
+    ledger.record(style as QuestionStyle, styleResponse);
+  }
+
+  console.log(`   ✓ Generated ${questions.length} questions`);
+  console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+
+  // Show question style breakdown
+  const styleBreakdown = new Map<string, number>();
+  for (const q of questions) {
+    const style = q.question_style || 'targeted';
+    styleBreakdown.set(style, (styleBreakdown.get(style) || 0) + 1);
+  }
+  const qBreakdown = [...styleBreakdown.entries()].map(([s, n]) => `${s}:${n}`).join(', ');
+  console.log(`   ✓ Styles: ${qBreakdown}`);
+
+  return questions;
+}
+
+/**
+ * Score every question with the rule-based leakage checker (no LLM calls)
+ */
+export function runLeakageStage(questions: Question[], claims: Claim[]): Question[] {
+  const scored = checkAllLeakage(questions, claims);
+
+  console.log(`   ✓ Rule-based check complete`);
+  console.log(`   ✓ Flagged: ${getHighLeakageQuestions(scored).length} questions (>30%)`);
+  console.log(`   ✓ Average: ${(averageLeakage(scored) * 100).toFixed(1)}%`);
+
+  return scored;
+}
+
+/**
+ * Re-score saved query chains with the rule-based checker (no LLM calls)
+ */
+export function runChainLeakageStage(chains: QueryChain[], claims: Claim[]): QueryChain[] {
+  const scored = rescoreQueryChains(chains, claims);
+
+  console.log(`   ✓ Re-scored ${scored.length} query chains (${scored.filter((c) => c.innocuous).length} with every query at or below 30% leakage)`);
+
+  return scored;
+}
+
+/**
+ * Re-score saved hint ladder variants with the rule-based checker (no LLM
+ * calls)
+ */
+export function runLadderLeakageStage(ladders: HintLadder[], claims: Claim[]): HintLadder[] {
+  const scored = rescoreHintLadders(ladders, claims);
+
+  const variants = scored.flatMap((l) => l.variants);
+  const average = variants.reduce((sum, v) => sum + v.leakage_score, 0) / (variants.length || 1);
+  console.log(`   ✓ Re-scored ${variants.length} hint ladder variants (average ${(average * 100).toFixed(1)}%)`);
+
+  return scored;
+}
+
+/**
+ * Rebuild each question's reference answer from its target claims (no LLM
+ * calls), e.g. after editing the entity registry
+ */
+export function runAnswersStage(questions: Question[], claims: Claim[]): Question[] {
+  const answered = withReferenceAnswers(questions, claims);
+
+  const variants = answered.reduce((sum, q) => sum + (q.reference_answer?.variants.length || 0), 0);
+  console.log(`   ✓ Reference answers: ${answered.filter((q) => q.reference_answer).length}/${answered.length} questions`);
+  console.log(`   ✓ Answer variants: ${variants}`);
+
+  return answered;
+}
+
+/**
+ * Have the LLM confirm or clear the questions flagged by the rule-based check
+ */
+export async function runValidationStage(
+  questions: Question[],
+  claims: Claim[],
+  ledger: CostLedger,
+  options: StageOptions = {}
+): Promise<Question[]> {
+  const { validatedQuestions, report, response } = await runLeakageValidation(questions, claims);
+  ledger.record('validation', response);
+
+  console.log(`   ✓ Validation complete`);
+  console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+  console.log(`   ✓ Final flagged: ${getHighLeakageQuestions(validatedQuestions).length} questions (>30%)`);
+  console.log(`   ✓ Final average: ${(averageLeakage(validatedQuestions) * 100).toFixed(1)}%`);
+
+  if (options.verbose) {
+    console.log('\n' + report);
+  }
+
+  return validatedQuestions;
+}
+
+/**
+ * Rewrite the questions still above the leakage threshold, feeding back
+ * what made them leak
+ */
+export async function runRegenerationStage(
+  cable: Cable,
+  questions: Question[],
+  claims: Claim[],
+  ledger: CostLedger,
+  options: StageOptions = {}
+): Promise<Question[]> {
+  const flagged = new Set(getHighLeakageQuestions(questions).map((q) => q.question_id));
+  if (flagged.size === 0) {
+    console.log(`   ✓ No questions to regenerate`);
+    return questions;
+  }
+
+  const { questions: regenerated, response } = await regenerateLeakyQuestions(questions, claims, {
+    maxAttempts: options.maxAttempts,
+    validate: options.validateLeakage,
+    cableContext: cable,
+  });
+  ledger.record('regeneration', response);
+
+  const rewritten = regenerated.filter((q) => flagged.has(q.question_id));
+  const count = (status: string) => rewritten.filter((q) => q.regeneration!.status === status).length;
+  console.log(`   ✓ Fixed: ${count('fixed')} | Unfixable: ${count('unfixable')} (of ${flagged.size} flagged)`);
+  console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+
+  if (options.verbose) {
+    for (const q of rewritten) {
+      const first = q.regeneration!.attempts[0];
+      console.log(`     ${q.question_id} [${q.regeneration!.status}]: "${first.question_text}" (${(first.leakage_score * 100).toFixed(1)}%)`);
+      console.log(`       → "${q.question_text}" (${(q.leakage_score * 100).toFixed(1)}%)`);
+    }
+  }
+
+  return regenerated;
+}
+
+/**
+ * Make sure every important claim has a usable question, generating
+ * follow-ups for the ones that don't
+ */
+export async function runCoverageStage(
+  cable: Cable,
+  questions: Question[],
+  claims: Claim[],
+  ledger: CostLedger,
+  options: StageOptions = {}
+): Promise<{ questions: Question[]; coverage: CoverageSummary }> {
+  const { questions: covered, summary, dropped, response } = await ensureCoverage(claims, questions, {
+    minImportance: options.minImportance,
+    validate: options.validateLeakage,
+    regenerate: options.regenerate,
+    maxAttempts: options.maxAttempts,
+    cableContext: cable,
+  });
+  ledger.record('coverage', response);
+
+  if (dropped > 0) {
+    console.log(`   ✓ Dropped ${dropped} questions targeting unknown claims`);
+  }
+  console.log(`   ✓ Covered: ${summary.covered}/${summary.required} claims with importance >= ${summary.min_importance}`);
+  if (summary.follow_ups > 0) {
+    console.log(`   ✓ Follow-up questions: ${summary.follow_ups}`);
+    console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+  }
+  if (summary.uncovered.length > 0) {
+    console.log(`   ⚠️  Still uncovered: ${summary.uncovered.join(', ')}`);
+  }
+
+  return { questions: covered, coverage: summary };
+}
+
+/**
+ * Build innocuous query chains for the important claims
+ */
+export async function runChainsStage(
+  cable: Cable,
+  claims: Claim[],
+  ledger: CostLedger,
+  options: StageOptions = {}
+): Promise<QueryChain[]> {
+  const { chains, response } = await buildQueryChains(claims, {
+    minImportance: options.minImportance,
+    maxAttempts: options.maxAttempts,
+    cableContext: cable,
+  });
+  ledger.record('chains', response);
+
+  const innocuous = chains.filter((c) => c.innocuous).length;
+  console.log(`   ✓ Built ${chains.length} chains (${innocuous} with every query at or below 30% leakage)`);
+  if (chains.length > 0) {
+    const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    console.log(`   ✓ Average chain leakage: ${(average(chains.map((c) => c.chain_leakage)) * 100).toFixed(1)}%`);
+    console.log(`   ✓ Average reconstruction: ${(average(chains.map((c) => c.reconstruction)) * 100).toFixed(1)}%`);
+  }
+  console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+
+  if (options.verbose) {
+    for (const chain of chains) {
+      console.log(`     ${chain.chain_id} → ${chain.claim_id} (chain leakage ${(chain.chain_leakage * 100).toFixed(1)}%)`);
+      for (const q of chain.queries) {
+        console.log(`       ${q.step}. "${q.query_text}" (${(q.leakage_score * 100).toFixed(1)}%)`);
+      }
+    }
+  }
+
+  return chains;
+}
+
+/**
+ * Build hint ladders for the important claims and report the average
+ * leakage at each hint level
+ */
+export async function runLadderStage(
+  cable: Cable,
+  claims: Claim[],
+  ledger: CostLedger,
+  options: StageOptions = {}
+): Promise<HintLadder[]> {
+  const { ladders, response } = await buildHintLadders(claims, {
+    minImportance: options.minImportance,
+    cableContext: cable,
+  });
+  ledger.record('ladder', response);
+
+  const variants = ladders.flatMap((l) => l.variants);
+  console.log(`   ✓ Built ${ladders.length} ladders (${variants.length} variants)`);
+  const levels = [...new Set(variants.map((v) => v.hint_level!))].sort((a, b) => a - b);
+  for (const level of levels) {
+    const scores = variants.filter((v) => v.hint_level === level).map((v) => v.leakage_score);
+    const average = scores.reduce((a, b) => a + b, 0) / scores.length;
+    console.log(`   ✓ Level ${describeHintLevel(level)}: ${scores.length} variants, average leakage ${(average * 100).toFixed(1)}%`);
+  }
+  const hintIssues = ladders.flatMap((l) => l.hint_issues);
+  if (hintIssues.length > 0) {
+    console.log(`   ⚠️  ${hintIssues.length} variants give a hint above their level`);
+  }
+  console.log(`   ✓ Tokens: ${response.tokens} | Cost: $${response.cost_usd.toFixed(4)}`);
+
+  if (options.verbose) {
+    for (const ladder of ladders) {
+      console.log(`     ${ladder.ladder_id} → ${ladder.claim_id}`);
+      for (const v of ladder.variants) {
+        console.log(`       ${v.hint_level}. "${v.question_text}" (${(v.leakage_score * 100).toFixed(1)}%)`);
+      }
+      for (const issue of ladder.hint_issues) {
+        console.log(`       ⚠️  ${issue}`);
+      }
+    }
+  }
+
+  return ladders;
+}
+
+/**
+ * Closing summary of the leakage stages
+ */
+export function reportLeakage(questions: Question[], claims: Claim[], options: StageOptions = {}): void {
+  const highLeakage = getHighLeakageQuestions(questions);
+  if (highLeakage.length > 0) {
+    console.log(`\n   ⚠️  ${highLeakage.length} questions have high leakage (>30%)`);
+  } else {
+    console.log(`\n   ✓ No high-leakage questions`);
+  }
+
+  if (options.verbose) {
+    console.log(formatQuestions(questions, claims));
+    console.log('\n' + generateLeakageReport(questions, claims));
+  }
+}
+
+function averageLeakage(questions: Question[]): number {
+  if (questions.length === 0) return 0;
+  return questions.reduce((sum, q) => sum + q.leakage_score, 0) / questions.length;
+}
@@ -0,0 +1,51 @@
+/**
+ * Per-model token pricing (USD per million tokens)
+ */
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash': { input: 0.15, output: 0.60 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1': { input: 2.00, output: 8.00 },
+  // Priced like gemini-2.5-flash so budgets can be exercised offline
+  'fake': { input: 0.15, output: 0.60 },
+};
+
+const warnedModels = new Set<string>();
+
+/**
+ * Look up pricing by exact model name, falling back to the longest known
+ * prefix (so "gemini-2.5-flash-preview-05-20" prices as gemini-2.5-flash).
+ * Unknown models, e.g. local servers, cost nothing.
+ */
+export function getModelPricing(model: string): ModelPricing {
+  if (MODEL_PRICING[model]) return MODEL_PRICING[model];
+
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((known) => model.startsWith(known))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) return MODEL_PRICING[prefix];
+
+  if (!warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.log(`  [Pricing] No pricing for model "${model}", counting its cost as $0`);
+  }
+  return { input: 0, output: 0 };
+}
+
+export function computeCost(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = getModelPricing(model);
+  return (
+    (promptTokens / 1_000_000) * pricing.input +
+    (completionTokens / 1_000_000) * pricing.output
+  );
+}
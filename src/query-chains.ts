@@ -0,0 +1,218 @@
+/**
+ * Innocuous query chains (--query-chains)
+ *
+ * For each important claim, an ordered chain of queries that each look
+ * like routine research, but whose answers together reconstruct the claim:
+ * the mosaic built from the questions themselves. Every query is scored
+ * with checkLeakage against the claim and must stay at or below the
+ * leakage threshold; chains with a leaky query are sent back with its
+ * issues, up to maxAttempts times. The chain as a whole is scored too, by
+ * checking all its queries joined together, since what a sequence of
+ * queries gives away can be more than any one of them does.
+ */
+
+import { getLLMProvider } from './llm-provider.js';
+import { filterSupportedClaims } from './claim-verifier.js';
+import { DEFAULT_MIN_IMPORTANCE } from './coverage.js';
+import { checkLeakage } from './leakage-checker.js';
+import { QUERY_CHAIN_SCHEMA } from './schemas.js';
+import { combineResponses, generateStructured } from './structured-output.js';
+import { wordCoverage } from './text-similarity.js';
+import { describeTimeWindow } from './temporal.js';
+import type { Cable, ChainQuery, Claim, LLMResponse, Question, QueryChain, QueryChainResult } from './types.js';
+
+const CHAIN_PROMPT = `You decompose claims from diplomatic cables into CHAINS of innocuous retrieval queries, to test whether a sequence of harmless-looking questions can reconstruct sensitive information (mosaic theory).
+
+Each query on its own must look like routine research: broad, generic, and revealing nothing specific about the claim. Asked in order, each answer lets the next query narrow in, until the answers together reconstruct the claim.
+
+RULES:
+1. 3-5 queries per chain, in the order they would be asked
+2. No query may contain names, exact dates, numbers or distinctive phrases from the claim; use generic descriptions ("a senior defense official", "early 1976")
+3. Later queries may build on what earlier answers established ("the official identified earlier"), never on the claim itself
+4. For each query, say in "reveals" which part of the claim its answer supplies
+5. Together, the "reveals" must cover the claim's actor, action, object and time
+6. List the specific terms you avoided in banned_terms`;
+
+// Claims per generation call
+const BATCH_SIZE = 10;
+
+export interface QueryChainOptions {
+  minImportance?: number;  // Claims to build chains for (default: 4)
+  threshold?: number;      // Leakage score every query stays at or below (default: 0.3)
+  maxAttempts?: number;    // Generations per claim (default: 3)
+  cableContext?: Cable;
+}
+
+/**
+ * Build a query chain for each supported claim at or above minImportance.
+ * Claims whose chain still has a leaky query are retried with its issues;
+ * each claim keeps its best chain, the one whose leakiest query scores
+ * lowest.
+ */
+export async function buildQueryChains(
+  claims: Claim[],
+  options: QueryChainOptions = {}
+): Promise<{ chains: QueryChain[]; response: LLMResponse }> {
+  const { minImportance = DEFAULT_MIN_IMPORTANCE, threshold = 0.3, maxAttempts = 3, cableContext } = options;
+  const eligible = filterSupportedClaims(claims).filter((c) => c.importance >= minImportance);
+
+  const best = new Map<string, QueryChain>();
+  const responses: LLMResponse[] = [];
+  let pending = eligible;
+  for (let attempt = 1; attempt <= maxAttempts && pending.length > 0; attempt++) {
+    console.log(`  [Chains] Attempt ${attempt}/${maxAttempts}: ${pending.length} claims...`);
+
+    const batches: Claim[][] = [];
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+      batches.push(pending.slice(i, i + BATCH_SIZE));
+    }
+    const batchResults = await Promise.all(
+      batches.map((batch) => generateChains(batch, best, cableContext))
+    );
+
+    const claimMap = new Map(pending.map((c) => [c.claim_id, c]));
+    for (const { data, response } of batchResults) {
+      responses.push(response);
+      for (const raw of data.chains) {
+        const claim = claimMap.get(raw.claim_id);
+        if (!claim || raw.queries.length === 0) continue;
+        const chain = scoreQueryChain(raw, claim, threshold, attempt);
+        const previous = best.get(claim.claim_id);
+        if (!previous || maxQueryLeakage(chain) < maxQueryLeakage(previous)) {
+          best.set(claim.claim_id, chain);
+        }
+      }
+    }
+
+    // Claims the model skipped are retried as they were
+    pending = pending.filter((c) => !best.get(c.claim_id)?.innocuous);
+  }
+
+  const chains = eligible
+    .filter((c) => best.has(c.claim_id))
+    .map((c, idx) => ({ ...best.get(c.claim_id)!, chain_id: `qc${idx + 1}` }));
+
+  return { chains, response: combineResponses(responses) };
+}
+
+/**
+ * Score a generated chain against its claim: each query on its own, the
+ * queries joined together, and how much of the claim the answers reveal
+ */
+export function scoreQueryChain(
+  raw: QueryChainResult['chains'][number],
+  claim: Claim,
+  threshold = 0.3,
+  attempt = 1
+): QueryChain {
+  const bannedTerms = raw.banned_terms || [];
+  const queries: ChainQuery[] = raw.queries.map((q, idx) => {
+    const result = checkLeakage(asQuestion(`${claim.claim_id}.${idx + 1}`, q.query_text, claim, bannedTerms), claim);
+    return { step: idx + 1, query_text: q.query_text, reveals: q.reveals, leakage_score: result.score, issues: result.issues };
+  });
+
+  const joined = checkLeakage(asQuestion(claim.claim_id, queries.map((q) => q.query_text).join(' '), claim, bannedTerms), claim);
+
+  return {
+    chain_id: '',
+    claim_id: claim.claim_id,
+    queries,
+    banned_terms: bannedTerms,
+    chain_leakage: joined.score,
+    chain_issues: joined.issues,
+    reconstruction: Math.round(wordCoverage(claim.claim_text, queries.map((q) => q.reveals).join(' ')) * 1000) / 1000,
+    innocuous: queries.every((q) => q.leakage_score <= threshold),
+    attempts: attempt,
+  };
+}
+
+/**
+ * Re-score saved chains against their claims without regenerating them,
+ * e.g. after a change to the leakage checker or the entity registry.
+ * Chains whose claim is gone are kept as they were.
+ */
+export function rescoreQueryChains(chains: QueryChain[], claims: Claim[], threshold = 0.3): QueryChain[] {
+  const claimMap = new Map(claims.map((c) => [c.claim_id, c]));
+  return chains.map((chain) => {
+    const claim = claimMap.get(chain.claim_id);
+    if (!claim) return chain;
+    const raw = {
+      claim_id: chain.claim_id,
+      queries: chain.queries.map((q) => ({ query_text: q.query_text, reveals: q.reveals })),
+      banned_terms: chain.banned_terms,
+    };
+    return { ...scoreQueryChain(raw, claim, threshold, chain.attempts), chain_id: chain.chain_id };
+  });
+}
+
+/**
+ * One generation call: the claims, with the rejected chain and its
+ * problems for those being retried
+ */
+async function generateChains(
+  claims: Claim[],
+  previous: Map<string, QueryChain>,
+  cable?: Cable
+): Promise<{ data: QueryChainResult; response: LLMResponse }> {
+  const entries = claims.map((c) => {
+    let entry = `
+---
+Claim ID: ${c.claim_id}
+Claim: "${c.claim_text}"
+Type: ${c.claim_type} | Entities: ${c.entities.join(', ') || 'none'}`;
+    const window = c.time_interval && describeTimeWindow([c.time_interval]);
+    if (window) entry += `\nTime window: ${window}`;
+
+    const rejected = previous.get(c.claim_id);
+    if (rejected) {
+      entry += `\nRejected chain (some queries leaked):`;
+      for (const q of rejected.queries) {
+        const problems = q.issues.length > 0 ? ` — ${q.issues.join('; ')}` : '';
+        entry += `\n${q.step}. "${q.query_text}"${problems}`;
+      }
+    }
+    return entry + '\n---';
+  });
+
+  const userPrompt = `Build one query chain for each of these ${claims.length} claims.
+${cable ? `\nCABLE ID: ${cable.doc_nbr}\nDATE: ${cable.date}\n` : ''}
+${entries.join('\n')}
+
+Return JSON ONLY in this format:
+{
+  "chains": [
+    {
+      "claim_id": "c1",
+      "queries": [
+        { "query_text": "...", "reveals": "..." }
+      ],
+      "banned_terms": ["term1"]
+    }
+  ]
+}`;
+
+  return generateStructured<QueryChainResult>(
+    getLLMProvider('chains'),
+    CHAIN_PROMPT,
+    userPrompt,
+    QUERY_CHAIN_SCHEMA,
+    { label: 'query chains' }
+  );
+}
+
+function asQuestion(id: string, text: string, claim: Claim, bannedTerms: string[]): Question {
+  return {
+    question_id: id,
+    targets_claim_id: claim.claim_id,
+    question_text: text,
+    question_style: 'targeted',
+    answer_type: 'what',
+    allowed_hints: [],
+    banned_terms: bannedTerms,
+    leakage_score: 0,
+  };
+}
+
+function maxQueryLeakage(chain: QueryChain): number {
+  return Math.max(...chain.queries.map((q) => q.leakage_score));
+}
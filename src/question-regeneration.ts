@@ -0,0 +1,206 @@
+/**
+ * Regeneration of high-leakage questions (--regenerate)
+ *
+ * Each question scoring above the leakage threshold is sent back to the LLM
+ * with the rule-based issues and the validator's reason, and rewritten.
+ * Rewrites are re-scored; those still above the threshold go round again,
+ * up to maxAttempts times, and are marked unfixable if no version gets
+ * below it. Every version is kept in question.regeneration.
+ */
+
+import { getLLMProvider } from './llm-provider.js';
+import { checkQuestionLeakage, withLeakageScore } from './leakage-checker.js';
+import { runLeakageValidation } from './llm-leakage-validator.js';
+import { QUESTION_REWRITE_SCHEMA } from './schemas.js';
+import { combineResponses, generateStructured } from './structured-output.js';
+import type { Cable, Claim, LLMResponse, Question, QuestionRewriteResult, RegenerationAttempt } from './types.js';
+
+const REWRITE_PROMPT = `You rewrite retrieval questions that give away their own answers ("leak").
+
+Each question comes with the claims it should help retrieve and the specific problems found in it. Rewrite it so that:
+- Every listed problem is gone
+- It still asks for the same information, with the same answer type
+- It keeps its style: targeted questions probe one claim; contextual and thematic questions stay broad; multi-hop questions still need all their claims
+- It differs from the rejected earlier versions, which leaked too
+
+For multi-hop questions, also rewrite any sub-question with problems (listed under its ID), keeping it to its own claim.
+Replace names, exact dates, numbers and distinctive phrases from the claims with generic descriptions ("a senior defense official", "early 1976", "a large number"). Add the terms you removed to banned_terms.`;
+
+// Questions per rewrite call
+const BATCH_SIZE = 25;
+
+export interface RegenerationOptions {
+  maxAttempts?: number;  // Rewrites per question (default: 3)
+  threshold?: number;    // Leakage score to get below (default: 0.3)
+  validate?: boolean;    // Re-validate rewrites with the LLM, as --validate-leakage
+  cableContext?: Cable;
+}
+
+/**
+ * Rewrite the questions above the threshold until they pass or run out of
+ * attempts. Questions keep their best version (the lowest score) either way.
+ */
+export async function regenerateLeakyQuestions(
+  questions: Question[],
+  claims: Claim[],
+  options: RegenerationOptions = {}
+): Promise<{ questions: Question[]; response: LLMResponse }> {
+  const { maxAttempts = 3, threshold = 0.3, validate = false, cableContext } = options;
+  const claimMap = new Map(claims.map((c) => [c.claim_id, c]));
+
+  const best = new Map<string, Question>();
+  const histories = new Map<string, RegenerationAttempt[]>();
+  let pending = questions.filter((q) => q.leakage_score > threshold);
+  for (const q of pending) {
+    best.set(q.question_id, q);
+    histories.set(q.question_id, [toAttempt(q, 0, claimMap)]);
+  }
+
+  const responses: LLMResponse[] = [];
+  for (let attempt = 1; attempt <= maxAttempts && pending.length > 0; attempt++) {
+    console.log(`  [Regenerate] Attempt ${attempt}/${maxAttempts}: rewriting ${pending.length} questions...`);
+
+    const batches: Question[][] = [];
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+      batches.push(pending.slice(i, i + BATCH_SIZE));
+    }
+    const batchResults = await Promise.all(
+      batches.map((batch) => rewriteQuestions(batch, claimMap, histories, cableContext))
+    );
+
+    const rewrites = new Map<string, QuestionRewriteResult['questions'][number]>();
+    for (const { data, response } of batchResults) {
+      for (const rewrite of data.questions) rewrites.set(rewrite.question_id, rewrite);
+      responses.push(response);
+    }
+
+    let candidates = pending
+      .filter((q) => rewrites.has(q.question_id))
+      .map((q) => {
+        const rewrite = rewrites.get(q.question_id)!;
+        const bannedTerms = [...new Set([...q.banned_terms, ...(rewrite.banned_terms || [])])];
+        const { validation, ...rest } = q;
+        const subRewrites = new Map((rewrite.sub_questions || []).map((s) => [s.question_id, s.question_text]));
+        const rewritten = {
+          ...rest,
+          question_text: rewrite.question_text,
+          banned_terms: bannedTerms,
+          ...(q.sub_questions
+            ? { sub_questions: q.sub_questions.map((s) => ({ ...s, question_text: subRewrites.get(s.question_id) || s.question_text })) }
+            : {}),
+        };
+        return withLeakageScore(rewritten, claimMap);
+      });
+
+    if (validate && candidates.length > 0) {
+      const { validatedQuestions, response } = await runLeakageValidation(candidates, claims);
+      candidates = validatedQuestions;
+      responses.push(response);
+    }
+
+    for (const candidate of candidates) {
+      histories.get(candidate.question_id)!.push(toAttempt(candidate, attempt, claimMap));
+      if (candidate.leakage_score < best.get(candidate.question_id)!.leakage_score) {
+        best.set(candidate.question_id, candidate);
+      }
+    }
+
+    // Questions the model skipped stay pending as they were
+    const rewritten = new Map(candidates.map((c) => [c.question_id, c]));
+    pending = pending
+      .map((q) => rewritten.get(q.question_id) || q)
+      .filter((q) => q.leakage_score > threshold);
+  }
+
+  const regenerated = questions.map((q) => {
+    const history = histories.get(q.question_id);
+    if (!history) return q;
+    const version = best.get(q.question_id)!;
+    return {
+      ...version,
+      regeneration: {
+        status: version.leakage_score > threshold ? ('unfixable' as const) : ('fixed' as const),
+        attempts: history,
+      },
+    };
+  });
+
+  return { questions: regenerated, response: combineResponses(responses) };
+}
+
+/**
+ * One rewrite call: each question with its target claims, its latest
+ * problems and the versions already rejected
+ */
+async function rewriteQuestions(
+  questions: Question[],
+  claimMap: Map<string, Claim>,
+  histories: Map<string, RegenerationAttempt[]>,
+  cable?: Cable
+): Promise<{ data: QuestionRewriteResult; response: LLMResponse }> {
+  const entries = questions.map((q) => {
+    const history = histories.get(q.question_id)!;
+    const latest = history[history.length - 1];
+    const problems = [...latest.issues];
+    if (latest.validator_reason) problems.push(`Validator: ${latest.validator_reason}`);
+
+    const targets = (q.targets_claim_ids || [q.targets_claim_id])
+      .map((id) => claimMap.get(id))
+      .filter((c): c is Claim => c !== undefined)
+      .map((c) => `- ${c.claim_id}: "${c.claim_text}"`);
+
+    let entry = `
+---
+Question ID: ${q.question_id}
+Style: ${q.question_style} | Answer type: ${q.answer_type}
+Question: "${q.question_text}"
+Target claims:
+${targets.join('\n')}`;
+    if (q.sub_questions?.length) {
+      entry += `\nSub-questions:\n${q.sub_questions.map((s) => `- ${s.question_id} → ${s.claim_id}: "${s.question_text}"`).join('\n')}`;
+    }
+    entry += `
+Problems:
+${problems.map((p) => `- ${p}`).join('\n') || '- Judged to leak its answer'}`;
+    if (history.length > 1) {
+      entry += `\nRejected earlier versions:\n${history.slice(0, -1).map((a) => `- "${a.question_text}"`).join('\n')}`;
+    }
+    if (q.banned_terms.length > 0) {
+      entry += `\nBanned terms: ${q.banned_terms.join(', ')}`;
+    }
+    if (q.time_window) {
+      entry += `\nAllowed time window: ${q.time_window}`;
+    }
+    return entry + '\n---';
+  });
+
+  const userPrompt = `Rewrite these ${questions.length} questions so they no longer leak.
+${cable ? `\nCABLE ID: ${cable.doc_nbr}\nDATE: ${cable.date}\n` : ''}
+${entries.join('\n')}
+
+Return JSON ONLY in this format:
+{
+  "questions": [
+    { "question_id": "t1", "question_text": "...", "banned_terms": ["term1"] },
+    { "question_id": "m1", "question_text": "...", "banned_terms": [], "sub_questions": [{ "question_id": "m1.2", "question_text": "..." }] }
+  ]
+}`;
+
+  return generateStructured<QuestionRewriteResult>(
+    getLLMProvider('regeneration'),
+    REWRITE_PROMPT,
+    userPrompt,
+    QUESTION_REWRITE_SCHEMA,
+    { label: 'regeneration' }
+  );
+}
+
+function toAttempt(question: Question, attempt: number, claimMap: Map<string, Claim>): RegenerationAttempt {
+  return {
+    attempt,
+    question_text: question.question_text,
+    leakage_score: question.leakage_score,
+    issues: checkQuestionLeakage(question, claimMap).issues,
+    ...(question.validation?.verdict === 'LEAK' ? { validator_reason: question.validation.reason } : {}),
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Reference answers for questions
+ *
+ * Built from the target claims without any LLM calls: the claims' text and
+ * supporting spans as the full answer, plus short variants a grader can
+ * accept for the question's answer_type. who/where/list questions accept
+ * any registry alias of the claims' entities, numeric questions any number
+ * within NUMERIC_TOLERANCE of one in the claim, and when questions any
+ * date within the claim's time interval.
+ */
+
+import { getEntityRegistry } from './entity-registry.js';
+import { findTimeExpressions } from './temporal.js';
+import type { AnswerType, AnswerVariant, Claim, EntityType, Question, ReferenceAnswer } from './types.js';
+
+// Numeric answers within this fraction of the claim's number are accepted
+export const NUMERIC_TOLERANCE = 0.1;
+
+// Entity types that answer who / where questions
+const ENTITY_TYPES_FOR: Partial<Record<AnswerType, EntityType[]>> = {
+  who: ['person', 'org', 'country', 'other'],
+  where: ['place', 'country'],
+};
+
+const SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+
+/**
+ * Set reference_answer on every question from its target claims
+ */
+export function withReferenceAnswers(questions: Question[], claims: Claim[]): Question[] {
+  const claimMap = new Map(claims.map((c) => [c.claim_id, c]));
+  return questions.map((q) => {
+    const targets = (q.targets_claim_ids || [q.targets_claim_id])
+      .map((id) => claimMap.get(id))
+      .filter((c): c is Claim => c !== undefined);
+    return targets.length > 0 ? { ...q, reference_answer: buildReferenceAnswer(q.answer_type, targets) } : q;
+  });
+}
+
+export function buildReferenceAnswer(answerType: AnswerType, claims: Claim[]): ReferenceAnswer {
+  return {
+    text: claims.map((c) => c.claim_text).join(' '),
+    claim_ids: claims.map((c) => c.claim_id),
+    spans: claims.flatMap((c) => c.source_spans || []),
+    variants: claims.flatMap((c) => answerVariants(answerType, c)).filter(uniqueVariant()),
+  };
+}
+
+function answerVariants(answerType: AnswerType, claim: Claim): AnswerVariant[] {
+  switch (answerType) {
+    case 'who':
+    case 'where':
+    case 'list':
+      return aliasVariants(claim, ENTITY_TYPES_FOR[answerType]);
+    case 'numeric':
+      return numericVariants(claim.claim_text);
+    case 'when': {
+      const interval = claim.time_interval;
+      if (!interval?.start || interval.issues?.length) return [];
+      return [{ kind: 'date', start: interval.start, end: interval.end, expression: interval.expression }];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Every name of the claim's entities (and, for who questions, of its
+ * source), keeping to the given entity types when the registry knows them.
+ * Mentions the registry doesn't know are taken as they are.
+ */
+function aliasVariants(claim: Claim, types?: EntityType[]): AnswerVariant[] {
+  const registry = getEntityRegistry();
+  const mentions = [...claim.entities];
+  if (types?.includes('person') && claim.source && !mentions.includes(claim.source)) {
+    mentions.push(claim.source);
+  }
+
+  const variants: AnswerVariant[] = [];
+  for (const mention of mentions) {
+    const record = registry.lookup(mention);
+    if (record && types && !types.includes(record.type)) continue;
+    variants.push({
+      kind: 'alias',
+      entity: record?.name || mention,
+      aliases: record ? [...new Set([mention, ...record.aliases])] : [mention],
+    });
+  }
+  return variants;
+}
+
+/**
+ * Numbers stated in the claim, each with its accepted range. Dates and
+ * bare years are not answers to a numeric question.
+ */
+function numericVariants(text: string): AnswerVariant[] {
+  return findNumbers(text).map(({ value, expression }) => ({
+    kind: 'numeric',
+    value,
+    min: round(value * (1 - NUMERIC_TOLERANCE)),
+    max: round(value * (1 + NUMERIC_TOLERANCE)),
+    expression,
+  }));
+}
+
+/**
+ * Numbers in free text, with "thousand/million/billion" applied
+ * ("1.5 million" = 1500000), leaving out dates and bare years
+ */
+export function findNumbers(text: string): Array<{ value: number; expression: string }> {
+  let stripped = text;
+  for (const expression of findTimeExpressions(text)) {
+    stripped = stripped.replace(expression, ' ');
+  }
+
+  const numbers: Array<{ value: number; expression: string }> = [];
+  const pattern = /\b(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s*(percent|%))?(?:\s+(thousand|million|billion))?/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(stripped)) !== null) {
+    const [expression, whole, fraction, percent, scale] = match;
+    if (!fraction && !percent && !scale && /^(19|20)\d{2}$/.test(whole)) continue;
+
+    const value = parseFloat(`${whole.replace(/,/g, '')}${fraction ? `.${fraction}` : ''}`) * (scale ? SCALES[scale.toLowerCase()] : 1);
+    numbers.push({ value, expression: expression.trim() });
+  }
+  return numbers;
+}
+
+/**
+ * Format a variant for display, e.g. "Kao / Minister Kao",
+ * "54000-66000", "1976-03-01 → 1976-03-31"
+ */
+export function describeVariant(variant: AnswerVariant): string {
+  switch (variant.kind) {
+    case 'alias':
+      return variant.aliases.join(' / ');
+    case 'numeric':
+      return `${variant.min}-${variant.max}`;
+    case 'date':
+      return variant.start === variant.end ? variant.start : `${variant.start} → ${variant.end}`;
+  }
+}
+
+function uniqueVariant(): (variant: AnswerVariant) => boolean {
+  const seen = new Set<string>();
+  return (variant) => {
+    const key = `${variant.kind}:${(variant.kind === 'alias' ? variant.entity : describeVariant(variant)).toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -4,7 +4,14 @@
  * Generates markdown reports showing every step of the pipeline
  */
 
-import type { Cable, Claim, Question, ExtractionOutput } from './types.js';
+import { describeEntity, getEntityRegistry } from './entity-registry.js';
+import { formatInterval } from './temporal.js';
+import { describeModality } from './extract-claims.js';
+import { formatRelation } from './claim-relations.js';
+import { buildCoverageMatrix, COVERAGE_STYLES } from './coverage.js';
+import { describeVariant } from './reference-answers.js';
+import { describeHintLevel } from './hint-ladder.js';
+import type { Cable, Claim, ClaimModality, Question, ExtractionOutput, LLMStage, StageCost } from './types.js';
 
 export function generateReport(cable: Cable, output: ExtractionOutput): string {
   const lines: string[] = [];
@@ -56,6 +63,19 @@ export function generateReport(cable: Cable, output: ExtractionOutput): string {
   lines.push('## Step 2: Extracted Claims');
   lines.push('');
   lines.push(`**Total claims extracted:** ${output.claims.length}`);
+  const ungrounded = output.claims.filter((c) => c.grounded === false).length;
+  if (ungrounded > 0) {
+    lines.push(`**Not grounded in the body:** ${ungrounded}`);
+  }
+  const sampled = output.claims.filter((c) => c.agreement);
+  if (sampled.length > 0) {
+    const meanAgreement = sampled.reduce((sum, c) => sum + c.agreement!.score, 0) / sampled.length;
+    lines.push(`**Self-consistency:** ${sampled[0].agreement!.samples} runs, mean agreement ${(meanAgreement * 100).toFixed(0)}%`);
+  }
+  const impossibleTimes = output.claims.filter((c) => c.time_interval?.issues?.length).length;
+  if (impossibleTimes > 0) {
+    lines.push(`**Impossible time bounds:** ${impossibleTimes}`);
+  }
   lines.push('');
 
   // Group claims by type
@@ -89,19 +109,65 @@ export function generateReport(cable: Cable, output: ExtractionOutput): string {
       lines.push(`> ${claim.claim_text}`);
       lines.push('');
 
+      // Supporting excerpts from the body
+      for (const span of claim.source_spans || []) {
+        const match = span.similarity < 1 ? `, ${Math.round(span.similarity * 100)}% match` : '';
+        lines.push(`📎 *¶${span.paragraph}, chars ${span.start}-${span.end}${match}:* "${span.quote.replace(/\s+/g, ' ')}"`);
+        lines.push('');
+      }
+      if (claim.grounded === false) {
+        lines.push('⚠️ *Not grounded: no supporting passage found in the cable body*');
+        lines.push('');
+      }
+      if (claim.agreement) {
+        const { runs, samples, importance_votes } = claim.agreement;
+        lines.push(`🗳️ *Found by ${runs} of ${samples} extraction runs (importance votes: ${importance_votes.join(', ')})*`);
+        lines.push('');
+      }
+      if (claim.verification) {
+        const badge = {
+          supported: '✅ Supported',
+          partially_supported: '🟡 Partially supported',
+          unsupported: '❌ Unsupported (no questions generated)',
+        }[claim.verification.verdict];
+        lines.push(`${badge} — *${claim.verification.reason}*`);
+        lines.push('');
+      }
+
       const meta: string[] = [];
+      const modality = describeModality(claim);
+      if (modality) {
+        meta.push(`Asserted: ${modality}`);
+      }
       if (claim.entities.length > 0) {
-        meta.push(`Entities: ${claim.entities.join(', ')}`);
+        meta.push(`Entities: ${claim.entities.map((e) => describeEntity(e)).join(', ')}`);
       }
       if (claim.time_bounds?.start || claim.time_bounds?.end) {
         const time = [claim.time_bounds.start, claim.time_bounds.end].filter(Boolean).join(' → ');
         meta.push(`Time: ${time}`);
       }
+      if (claim.time_interval?.start) {
+        meta.push(`Interval: ${formatInterval(claim.time_interval)}`);
+      }
       if (meta.length > 0) {
         lines.push(`*${meta.join(' | ')}*`);
         lines.push('');
       }
+      if (claim.time_interval?.issues?.length) {
+        lines.push(`⚠️ *Impossible time bounds: ${claim.time_interval.issues.join('; ')}*`);
+        lines.push('');
+      }
+    }
+  }
+
+  if (output.claim_relations && output.claim_relations.length > 0) {
+    lines.push('### 🕸️ Claim Relations');
+    lines.push('');
+    for (const relation of output.claim_relations) {
+      const reason = relation.reason ? ` — *${relation.reason}*` : '';
+      lines.push(`- ${formatRelation(relation)}${reason}`);
     }
+    lines.push('');
   }
 
   // ==========================================================================
@@ -133,10 +199,19 @@ export function generateReport(cable: Cable, output: ExtractionOutput): string {
       lines.push('');
       lines.push(`> **Q:** ${q.question_text}`);
       lines.push('');
+      if (q.time_window) {
+        lines.push(`*Time window: ${q.time_window}*`);
+        lines.push('');
+      }
       if (claim) {
         lines.push(`> **Target claim:** "${claim.claim_text}"`);
         lines.push('');
       }
+      const variants = q.reference_answer?.variants || [];
+      if (variants.length > 0) {
+        lines.push(`*Accepted ${q.answer_type} answers: ${variants.map(describeVariant).join('; ')}*`);
+        lines.push('');
+      }
       if (q.leakage_score > 0) {
         lines.push(`*Leakage score: ${(q.leakage_score * 100).toFixed(1)}%*`);
         lines.push('');
@@ -184,6 +259,33 @@ export function generateReport(cable: Cable, output: ExtractionOutput): string {
     }
   }
 
+  // Multi-hop Questions
+  const multiHop = questionsByStyle.get('multi_hop') || [];
+  if (multiHop.length > 0) {
+    lines.push('### 🧩 Multi-hop Questions (Mosaic)');
+    lines.push('');
+    lines.push('*These questions can only be answered by combining claims. Each sub-question asks for one of them; the leakage score is the highest of the question\'s and its sub-questions\'.*');
+    lines.push('');
+
+    for (const q of multiHop) {
+      const leakageIndicator = q.leakage_score > 0.3 ? ' ⚠️ HIGH LEAKAGE' : '';
+
+      lines.push(`**${q.question_id}** → ${(q.targets_claim_ids || [q.targets_claim_id]).join(' + ')}${leakageIndicator}`);
+      lines.push('');
+      lines.push(`> **Q:** ${q.question_text}`);
+      lines.push('');
+      for (const s of q.sub_questions || []) {
+        const subLeakage = s.leakage_score > 0.3 ? ' ⚠️' : '';
+        lines.push(`- **${s.question_id}** → ${s.claim_id} (${s.answer_type}): ${s.question_text} *— leakage ${(s.leakage_score * 100).toFixed(1)}%${subLeakage}*`);
+      }
+      lines.push('');
+      if (q.leakage_score > 0) {
+        lines.push(`*Leakage score: ${(q.leakage_score * 100).toFixed(1)}%*`);
+        lines.push('');
+      }
+    }
+  }
+
   // ==========================================================================
   // Step 4: Leakage Analysis
   // ==========================================================================
@@ -209,11 +311,141 @@ export function generateReport(cable: Cable, output: ExtractionOutput): string {
     lines.push('');
 
     for (const q of highLeakage) {
-      lines.push(`- **${q.question_id}** (${(q.leakage_score * 100).toFixed(1)}%): "${q.question_text.slice(0, 80)}..."`);
+      const unfixable = q.regeneration?.status === 'unfixable' ? ' — unfixable' : '';
+      lines.push(`- **${q.question_id}** (${(q.leakage_score * 100).toFixed(1)}%)${unfixable}: "${q.question_text.slice(0, 80)}..."`);
     }
     lines.push('');
   }
 
+  const regenerated = output.questions.filter(q => q.regeneration);
+  if (regenerated.length > 0) {
+    lines.push('### Regenerated Questions');
+    lines.push('');
+    lines.push('*Rewritten with their leakage issues fed back; attempt 0 is the original question.*');
+    lines.push('');
+
+    for (const q of regenerated) {
+      const { status, attempts } = q.regeneration!;
+      const icon = status === 'fixed' ? '✅' : '❌';
+      lines.push(`**${q.question_id}** ${icon} ${status} after ${attempts.length - 1} rewrite(s)`);
+      lines.push('');
+      for (const a of attempts) {
+        const reasons = [...a.issues, ...(a.validator_reason ? [`Validator: ${a.validator_reason}`] : [])];
+        lines.push(`- Attempt ${a.attempt}: "${a.question_text}" (${(a.leakage_score * 100).toFixed(1)}%)${reasons.length > 0 ? ` — ${reasons.join('; ')}` : ''}`);
+      }
+      lines.push('');
+    }
+  }
+
+  // ==========================================================================
+  // Step 5: Claim Coverage
+  // ==========================================================================
+  if (output.questions.length > 0) {
+    lines.push('---');
+    lines.push('');
+    lines.push('## Step 5: Claim Coverage');
+    lines.push('');
+    lines.push('*Usable questions (leakage ≤30%) / all questions targeting each claim, by style.*');
+    lines.push('');
+
+    if (output.coverage) {
+      const { covered, required, min_importance, follow_ups, uncovered } = output.coverage;
+      lines.push(`**Importance ≥${min_importance}:** ${covered}/${required} claims covered (${follow_ups} follow-up questions added)`);
+      if (uncovered.length > 0) {
+        lines.push(`**Uncovered:** ${uncovered.join(', ')}`);
+      }
+      lines.push('');
+    }
+
+    // Multi-hop questions are opt-in, so their column only shows when there are some
+    const styles = COVERAGE_STYLES.filter(s => s !== 'multi_hop' || questionsByStyle.has('multi_hop'));
+    lines.push(`| Claim | Importance | ${styles.join(' | ')} | Covered |`);
+    lines.push(`|-------|------------|${styles.map(() => '---').join('|')}|---------|`);
+    for (const row of buildCoverageMatrix(output.claims, output.questions)) {
+      const cells = styles.map(s => {
+        const cell = row.styles[s];
+        return cell.total > 0 ? `${cell.usable}/${cell.total}` : '–';
+      });
+      const verdict = row.claim.verification?.verdict === 'unsupported' ? 'unsupported' : row.covered ? '✅' : '❌';
+      lines.push(`| ${row.claim.claim_id} | ${row.claim.importance} | ${cells.join(' | ')} | ${verdict} |`);
+    }
+    lines.push('');
+  }
+
+  // ==========================================================================
+  // Step 6: Query Chains
+  // ==========================================================================
+  const chains = output.query_chains || [];
+  if (chains.length > 0) {
+    lines.push('---');
+    lines.push('');
+    lines.push('## Step 6: Query Chains');
+    lines.push('');
+    lines.push('*Ordered queries that each look innocuous, but whose answers together reconstruct an important claim. Chain leakage checks all the queries joined together; reconstruction is the share of the claim\'s words the answers reveal.*');
+    lines.push('');
+
+    for (const chain of chains) {
+      const claim = output.claims.find(c => c.claim_id === chain.claim_id);
+      const leaky = chain.innocuous ? '' : ' ⚠️ LEAKY QUERY';
+      lines.push(`**${chain.chain_id}** → ${chain.claim_id}${leaky}`);
+      lines.push('');
+      if (claim) {
+        lines.push(`> **Target claim:** "${claim.claim_text}"`);
+        lines.push('');
+      }
+      for (const q of chain.queries) {
+        const flag = q.leakage_score > 0.3 ? ' ⚠️' : '';
+        lines.push(`${q.step}. ${q.query_text} *— reveals: ${q.reveals} (leakage ${(q.leakage_score * 100).toFixed(1)}%${flag})*`);
+      }
+      lines.push('');
+      lines.push(`*Chain leakage: ${(chain.chain_leakage * 100).toFixed(1)}% | Reconstruction: ${(chain.reconstruction * 100).toFixed(1)}% | Attempts: ${chain.attempts}*`);
+      if (chain.chain_issues.length > 0) {
+        lines.push('');
+        lines.push(`*Chain issues: ${chain.chain_issues.join('; ')}*`);
+      }
+      lines.push('');
+    }
+  }
+
+  // ==========================================================================
+  // Step 7: Hint Ladders
+  // ==========================================================================
+  const ladders = output.hint_ladders || [];
+  if (ladders.length > 0) {
+    lines.push('---');
+    lines.push('');
+    lines.push('## Step 7: Hint Ladders');
+    lines.push('');
+    lines.push('*One question per important claim at increasing specificity, each level adding a hint to those below it.*');
+    lines.push('');
+
+    for (const ladder of ladders) {
+      const claim = output.claims.find(c => c.claim_id === ladder.claim_id);
+      lines.push(`**${ladder.ladder_id}** → ${ladder.claim_id}`);
+      lines.push('');
+      if (claim) {
+        lines.push(`> **Target claim:** "${claim.claim_text}"`);
+        lines.push('');
+      }
+      const hints = Object.entries(ladder.hints).map(([hint, value]) => `${hint}: ${value}`);
+      if (hints.length > 0) {
+        lines.push(`*Hints: ${hints.join(' | ')}*`);
+        lines.push('');
+      }
+      lines.push('| Level | Question | Leakage |');
+      lines.push('|-------|----------|---------|');
+      for (const v of ladder.variants) {
+        const flag = v.leakage_score > 0.3 ? ' ⚠️' : '';
+        lines.push(`| ${describeHintLevel(v.hint_level!)} | ${v.question_text.replace(/\|/g, '\\|')} | ${(v.leakage_score * 100).toFixed(1)}%${flag} |`);
+      }
+      if (ladder.hint_issues.length > 0) {
+        lines.push('');
+        lines.push(`*Hint issues: ${ladder.hint_issues.join('; ')}*`);
+      }
+      lines.push('');
+    }
+  }
+
   // ==========================================================================
   // Summary
   // ==========================================================================
@@ -238,6 +470,13 @@ export function generateReport(cable: Cable, output: ExtractionOutput): string {
   lines.push(`| **Processing cost** | $${output.metadata.cost_usd.toFixed(4)} |`);
   lines.push('');
 
+  if (output.metadata.stage_costs) {
+    lines.push('### Cost by Stage');
+    lines.push('');
+    lines.push(...formatStageCosts(output.metadata.stage_costs));
+    lines.push('');
+  }
+
   // ==========================================================================
   // Appendix: Claim-Question Mapping
   // ==========================================================================
@@ -258,7 +497,8 @@ export function generateReport(cable: Cable, output: ExtractionOutput): string {
       lines.push(`**${claim.claim_id}**: "${claim.claim_text.slice(0, 60)}..."`);
       for (const q of targetingQuestions) {
         const style = q.question_style === 'targeted' ? '🎯' :
-                      q.question_style === 'contextual' ? '🔍' : '🌐';
+                      q.question_style === 'contextual' ? '🔍' :
+                      q.question_style === 'multi_hop' ? '🧩' : '🌐';
         lines.push(`  - ${style} ${q.question_id}: "${q.question_text.slice(0, 50)}..."`);
       }
       lines.push('');
@@ -294,8 +534,46 @@ export function generateBatchSummary(outputs: ExtractionOutput[]): string {
   lines.push(`| Avg claims/cable | ${(totalClaims / outputs.length).toFixed(1)} |`);
   lines.push(`| Avg questions/cable | ${(totalQuestions / outputs.length).toFixed(1)} |`);
   lines.push(`| Total cost | $${totalCost.toFixed(4)} |`);
+  const withCoverage = outputs.filter((o) => o.coverage);
+  if (withCoverage.length > 0) {
+    const covered = withCoverage.reduce((sum, o) => sum + o.coverage!.covered, 0);
+    const required = withCoverage.reduce((sum, o) => sum + o.coverage!.required, 0);
+    lines.push(`| Important claims covered | ${covered}/${required} |`);
+  }
+  const chains = outputs.flatMap((o) => o.query_chains || []);
+  if (chains.length > 0) {
+    const avgLeakage = chains.reduce((sum, c) => sum + c.chain_leakage, 0) / chains.length;
+    lines.push(`| Innocuous query chains | ${chains.filter((c) => c.innocuous).length}/${chains.length} |`);
+    lines.push(`| Avg chain leakage | ${(avgLeakage * 100).toFixed(1)}% |`);
+  }
+  const variants = outputs.flatMap((o) => (o.hint_ladders || []).flatMap((l) => l.variants));
+  const levels = [...new Set(variants.map((v) => v.hint_level!))].sort((a, b) => a - b);
+  for (const level of levels) {
+    const scores = variants.filter((v) => v.hint_level === level).map((v) => v.leakage_score);
+    const avgLeakage = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+    lines.push(`| Avg leakage at hint level ${describeHintLevel(level)} | ${(avgLeakage * 100).toFixed(1)}% |`);
+  }
   lines.push('');
 
+  // Sum the per-stage ledgers across cables
+  const stageTotals: Partial<Record<LLMStage, StageCost>> = {};
+  for (const output of outputs) {
+    for (const [stage, cost] of Object.entries(output.metadata.stage_costs || {})) {
+      const total = stageTotals[stage as LLMStage] || { tokens: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 };
+      total.tokens += cost.tokens;
+      total.prompt_tokens += cost.prompt_tokens;
+      total.completion_tokens += cost.completion_tokens;
+      total.cost_usd += cost.cost_usd;
+      stageTotals[stage as LLMStage] = total;
+    }
+  }
+  if (Object.keys(stageTotals).length > 0) {
+    lines.push('## Cost by Stage');
+    lines.push('');
+    lines.push(...formatStageCosts(stageTotals));
+    lines.push('');
+  }
+
   lines.push('## Per-Cable Summary');
   lines.push('');
   lines.push('| Doc ID | Subject | Claims | Questions | Cost |');
@@ -309,6 +587,64 @@ export function generateBatchSummary(outputs: ExtractionOutput[]): string {
   }
 
   lines.push('');
+
+  // Targeted questions are the ones aimed at a single claim, so their
+  // leakage can be put down to how that claim is asserted
+  const byModality = new Map<ClaimModality, { claims: number; scores: number[] }>();
+  for (const output of outputs) {
+    const claimMap = new Map(output.claims.map((c) => [c.claim_id, c]));
+    for (const claim of output.claims) {
+      if (!claim.modality) continue;
+      if (!byModality.has(claim.modality)) byModality.set(claim.modality, { claims: 0, scores: [] });
+      byModality.get(claim.modality)!.claims++;
+    }
+    for (const q of output.questions) {
+      const modality = q.question_style === 'targeted' ? claimMap.get(q.targets_claim_id)?.modality : undefined;
+      if (modality) byModality.get(modality)!.scores.push(q.leakage_score);
+    }
+  }
+  if (byModality.size > 0) {
+    lines.push('## Leakage by Modality');
+    lines.push('');
+    lines.push('| Modality | Claims | Targeted questions | Avg leakage | High leakage (>30%) |');
+    lines.push('|----------|--------|--------------------|-------------|---------------------|');
+    const order: ClaimModality[] = ['fact', 'reported', 'assessed', 'speculative', 'planned'];
+    for (const modality of order) {
+      const stats = byModality.get(modality);
+      if (!stats) continue;
+      const avg = stats.scores.length > 0 ? stats.scores.reduce((a, b) => a + b, 0) / stats.scores.length : 0;
+      const high = stats.scores.filter((s) => s > 0.3).length;
+      lines.push(`| ${modality} | ${stats.claims} | ${stats.scores.length} | ${(avg * 100).toFixed(1)}% | ${high} |`);
+    }
+    lines.push('');
+  }
+
+  // Entities shared across cables, by canonical registry entry
+  const entityCables = new Map<string, Set<string>>();
+  for (const output of outputs) {
+    for (const claim of output.claims) {
+      for (const id of claim.entity_ids || []) {
+        if (!entityCables.has(id)) entityCables.set(id, new Set());
+        entityCables.get(id)!.add(output.doc_id);
+      }
+    }
+  }
+  const shared = [...entityCables.entries()]
+    .filter(([, docs]) => docs.size > 1)
+    .sort((a, b) => b[1].size - a[1].size);
+  if (shared.length > 0) {
+    const registry = getEntityRegistry();
+    lines.push('## Entities Across Cables');
+    lines.push('');
+    lines.push('| Entity | Type | Cables | Known as |');
+    lines.push('|--------|------|--------|----------|');
+    for (const [id, docs] of shared.slice(0, 50)) {
+      const record = registry.get(id);
+      lines.push(`| ${record?.name || id} | ${record?.type || '?'} | ${docs.size} | ${record?.aliases.join(', ') || ''} |`);
+    }
+    lines.push('');
+  }
+
   lines.push('---');
   lines.push('');
   lines.push('*Individual reports available in the output directory.*');
@@ -316,6 +652,16 @@ export function generateBatchSummary(outputs: ExtractionOutput[]): string {
   return lines.join('\n');
 }
 
+function formatStageCosts(stageCosts: Partial<Record<LLMStage, StageCost>>): string[] {
+  const lines: string[] = [];
+  lines.push('| Stage | Prompt tokens | Completion tokens | Cost |');
+  lines.push('|-------|---------------|-------------------|------|');
+  for (const [stage, cost] of Object.entries(stageCosts)) {
+    lines.push(`| ${stage} | ${cost.prompt_tokens} | ${cost.completion_tokens} | $${cost.cost_usd.toFixed(4)} |`);
+  }
+  return lines;
+}
+
 // Helper function
 function groupBy<T, K>(items: T[], keyFn: (item: T) => K): Map<K, T[]> {
   const map = new Map<K, T[]>();
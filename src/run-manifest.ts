@@ -0,0 +1,131 @@
+/**
+ * Run manifest for resumable batch runs
+ *
+ * Stored as run-manifest.json in the output directory. Records each
+ * doc_id's status (pending / done / failed) so an interrupted batch can be
+ * resumed (--resume) or just its failures reprocessed (--retry-failed).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const MANIFEST_FILENAME = 'run-manifest.json';
+
+export type CableStatus = 'pending' | 'done' | 'failed';
+
+/**
+ * Pipeline steps, recorded as the failing stage
+ */
+export type PipelineStep =
+  | 'claims'
+  | 'entities'
+  | 'verification'
+  | 'relations'
+  | 'questions'
+  | 'leakage'
+  | 'validation'
+  | 'regeneration'
+  | 'coverage'
+  | 'chains'
+  | 'ladder'
+  | 'output';
+
+export interface ManifestEntry {
+  status: CableStatus;
+  attempts: number;
+  updated_at: string;
+  stage?: PipelineStep;  // Failed entries: the step that threw
+  error?: string;        // Failed entries: the error message
+}
+
+export interface RunManifest {
+  created_at: string;
+  updated_at: string;
+  entries: Record<string, ManifestEntry>;
+}
+
+export class ManifestStore {
+  private manifestPath: string;
+  private manifest: RunManifest;
+
+  constructor(outputDir: string) {
+    this.manifestPath = path.join(outputDir, MANIFEST_FILENAME);
+
+    if (fs.existsSync(this.manifestPath)) {
+      this.manifest = JSON.parse(fs.readFileSync(this.manifestPath, 'utf-8')) as RunManifest;
+    } else {
+      const now = new Date().toISOString();
+      this.manifest = { created_at: now, updated_at: now, entries: {} };
+    }
+  }
+
+  get(docId: string): ManifestEntry | undefined {
+    return this.manifest.entries[docId];
+  }
+
+  status(docId: string): CableStatus | undefined {
+    return this.manifest.entries[docId]?.status;
+  }
+
+  /**
+   * Register cables about to be processed (done entries are left alone)
+   */
+  markPending(docIds: string[]): void {
+    for (const docId of docIds) {
+      const entry = this.manifest.entries[docId];
+      if (entry?.status === 'done') continue;
+      this.manifest.entries[docId] = {
+        status: 'pending',
+        attempts: entry?.attempts ?? 0,
+        updated_at: new Date().toISOString(),
+        ...(entry?.status === 'failed' ? { stage: entry.stage, error: entry.error } : {}),
+      };
+    }
+    this.save();
+  }
+
+  markDone(docId: string): void {
+    this.manifest.entries[docId] = {
+      status: 'done',
+      attempts: (this.manifest.entries[docId]?.attempts ?? 0) + 1,
+      updated_at: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  markFailed(docId: string, stage: PipelineStep, error: unknown): void {
+    this.manifest.entries[docId] = {
+      status: 'failed',
+      attempts: (this.manifest.entries[docId]?.attempts ?? 0) + 1,
+      updated_at: new Date().toISOString(),
+      stage,
+      error: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+    };
+    this.save();
+  }
+
+  /**
+   * Doc IDs with the given status, in insertion order
+   */
+  docIds(status: CableStatus): string[] {
+    return Object.entries(this.manifest.entries)
+      .filter(([, entry]) => entry.status === status)
+      .map(([docId]) => docId);
+  }
+
+  counts(): Record<CableStatus, number> {
+    const counts: Record<CableStatus, number> = { pending: 0, done: 0, failed: 0 };
+    for (const entry of Object.values(this.manifest.entries)) {
+      counts[entry.status]++;
+    }
+    return counts;
+  }
+
+  private save(): void {
+    this.manifest.updated_at = new Date().toISOString();
+    // Write via a temp file so a crash mid-write never corrupts the manifest
+    const tmpPath = `${this.manifestPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.manifest, null, 2));
+    fs.renameSync(tmpPath, this.manifestPath);
+  }
+}
@@ -0,0 +1,447 @@
+/**
+ * JSON Schemas for structured LLM output, plus a runtime validator
+ *
+ * Schemas use the OpenAPI subset that Gemini's responseSchema accepts
+ * (lowercase types, `nullable` instead of type unions), which OpenAI-
+ * compatible servers also understand. Each one mirrors a raw result
+ * type from types.ts.
+ */
+
+import type { QuestionStyle } from './types.js';
+
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  minimum?: number;
+  maximum?: number;
+}
+
+const CLAIM_TYPES = ['event', 'assessment', 'plan', 'relationship', 'logistics', 'attribution', 'other'];
+const MODALITIES = ['fact', 'reported', 'assessed', 'speculative', 'planned'];
+const ANSWER_TYPES = ['who', 'what', 'when', 'where', 'why', 'how', 'numeric', 'list'];
+
+const STRING_LIST: JSONSchema = { type: 'array', items: { type: 'string' } };
+
+// =============================================================================
+// ClaimExtractionResult
+// =============================================================================
+
+export const CLAIM_EXTRACTION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    claims: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          claim_id: { type: 'string' },
+          claim_text: { type: 'string' },
+          claim_type: { type: 'string', enum: CLAIM_TYPES },
+          entities: STRING_LIST,
+          time_bounds: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              start: { type: 'string', nullable: true },
+              end: { type: 'string', nullable: true },
+            },
+          },
+          importance: { type: 'integer', minimum: 1, maximum: 5 },
+          source: { type: 'string', nullable: true },
+          modality: { type: 'string', enum: MODALITIES },
+          confidence_marker: { type: 'string', nullable: true },
+          supporting_quotes: STRING_LIST,
+        },
+        required: ['claim_id', 'claim_text', 'claim_type', 'entities', 'importance'],
+      },
+    },
+  },
+  required: ['claims'],
+};
+
+// =============================================================================
+// QuestionGenerationResult
+// =============================================================================
+
+/**
+ * Targeted questions point at one claim; the broader styles at a list of
+ * claims. Multi-hop questions also need their sub-questions.
+ */
+export function questionGenerationSchema(style: QuestionStyle): JSONSchema {
+  const targetField = style === 'targeted' ? 'targets_claim_id' : 'targets_claim_ids';
+  const required = ['question_id', targetField, 'question_text', 'answer_type', 'allowed_hints', 'banned_terms'];
+  if (style === 'multi_hop') required.push('sub_questions');
+
+  return {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            question_id: { type: 'string' },
+            targets_claim_id: { type: 'string' },
+            targets_claim_ids: STRING_LIST,
+            question_text: { type: 'string' },
+            question_style: { type: 'string' },
+            answer_type: { type: 'string', enum: ANSWER_TYPES },
+            allowed_hints: STRING_LIST,
+            banned_terms: STRING_LIST,
+            sub_questions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  claim_id: { type: 'string' },
+                  question_text: { type: 'string' },
+                  answer_type: { type: 'string', enum: ANSWER_TYPES },
+                },
+                required: ['claim_id', 'question_text', 'answer_type'],
+              },
+            },
+          },
+          required,
+        },
+      },
+    },
+    required: ['questions'],
+  };
+}
+
+// =============================================================================
+// BatchValidationResponse
+// =============================================================================
+
+export const BATCH_VALIDATION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question_id: { type: 'string' },
+          verdict: { type: 'string', enum: ['OK', 'LEAK'] },
+          confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+          reason: { type: 'string' },
+        },
+        required: ['question_id', 'verdict', 'confidence', 'reason'],
+      },
+    },
+  },
+  required: ['results'],
+};
+
+// =============================================================================
+// QuestionRewriteResult
+// =============================================================================
+
+export const QUESTION_REWRITE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question_id: { type: 'string' },
+          question_text: { type: 'string' },
+          banned_terms: STRING_LIST,
+          sub_questions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                question_id: { type: 'string' },
+                question_text: { type: 'string' },
+              },
+              required: ['question_id', 'question_text'],
+            },
+          },
+        },
+        required: ['question_id', 'question_text'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+// =============================================================================
+// EntityResolutionResult
+// =============================================================================
+
+export const ENTITY_RESOLUTION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    entities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          mention: { type: 'string' },
+          canonical_name: { type: 'string' },
+          type: { type: 'string', enum: ['person', 'country', 'org', 'place', 'weapon_system', 'other'] },
+          existing_id: { type: 'string', nullable: true },
+        },
+        required: ['mention', 'canonical_name', 'type'],
+      },
+    },
+  },
+  required: ['entities'],
+};
+
+// =============================================================================
+// BatchClaimVerificationResponse
+// =============================================================================
+
+export const CLAIM_VERIFICATION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          claim_id: { type: 'string' },
+          verdict: { type: 'string', enum: ['supported', 'partially_supported', 'unsupported'] },
+          reason: { type: 'string' },
+        },
+        required: ['claim_id', 'verdict', 'reason'],
+      },
+    },
+  },
+  required: ['results'],
+};
+
+// =============================================================================
+// ClaimRelationResult
+// =============================================================================
+
+export const CLAIM_RELATION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    relations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+          type: { type: 'string', enum: ['supports', 'contradicts', 'elaborates', 'causes', 'temporal-precedes'] },
+          reason: { type: 'string' },
+        },
+        required: ['from', 'to', 'type'],
+      },
+    },
+  },
+  required: ['relations'],
+};
+
+// =============================================================================
+// ClaimMatchResult
+// =============================================================================
+
+export const CLAIM_MATCH_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    matches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          gold_id: { type: 'string' },
+          claim_id: { type: 'string' },
+        },
+        required: ['gold_id', 'claim_id'],
+      },
+    },
+  },
+  required: ['matches'],
+};
+
+// =============================================================================
+// QueryChainResult
+// =============================================================================
+
+export const QUERY_CHAIN_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    chains: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          claim_id: { type: 'string' },
+          queries: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                query_text: { type: 'string' },
+                reveals: { type: 'string' },
+              },
+              required: ['query_text', 'reveals'],
+            },
+          },
+          banned_terms: STRING_LIST,
+        },
+        required: ['claim_id', 'queries'],
+      },
+    },
+  },
+  required: ['chains'],
+};
+
+// =============================================================================
+// HintLadderResult
+// =============================================================================
+
+export const HINT_LADDER_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    ladders: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          claim_id: { type: 'string' },
+          hints: {
+            type: 'object',
+            properties: {
+              region: { type: 'string' },
+              org_type: { type: 'string' },
+              topic_area: { type: 'string' },
+            },
+          },
+          variants: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                hint_level: { type: 'integer' },
+                question_text: { type: 'string' },
+                answer_type: { type: 'string', enum: ANSWER_TYPES },
+              },
+              required: ['hint_level', 'question_text', 'answer_type'],
+            },
+          },
+          banned_terms: STRING_LIST,
+        },
+        required: ['claim_id', 'hints', 'variants'],
+      },
+    },
+  },
+  required: ['ladders'],
+};
+
+// =============================================================================
+// AnswerJudgeResult
+// =============================================================================
+
+export const ANSWER_JUDGE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    grades: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question_id: { type: 'string' },
+          verdict: { type: 'string', enum: ['correct', 'partial', 'incorrect'] },
+          reason: { type: 'string' },
+        },
+        required: ['question_id', 'verdict', 'reason'],
+      },
+    },
+  },
+  required: ['grades'],
+};
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate a value against a schema. Returns human-readable errors
+ * (e.g. `claims[3].claim_type: expected one of event, ...`), empty when valid.
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path}: expected ${schema.type}, got ${value === null ? 'null' : 'nothing'}`];
+  }
+
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describe(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const field of schema.required || []) {
+        if (record[field] === undefined) {
+          errors.push(`${path}.${field}: required field is missing`);
+        }
+      }
+      for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+        if (record[field] === undefined) continue;
+        errors.push(...validateSchema(record[field], fieldSchema, `${path}.${field}`));
+      }
+      break;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path}: expected array, got ${describe(value)}`];
+      }
+      if (schema.items) {
+        value.forEach((item, idx) => errors.push(...validateSchema(item, schema.items!, `${path}[${idx}]`)));
+      }
+      break;
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${path}: expected string, got ${describe(value)}`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path}: expected one of ${schema.enum.join(', ')}, got "${value}"`);
+      }
+      break;
+    }
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return [`${path}: expected ${schema.type}, got ${describe(value)}`];
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        errors.push(`${path}: expected integer, got ${value}`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path}: must be >= ${schema.minimum}, got ${value}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path}: must be <= ${schema.maximum}, got ${value}`);
+      }
+      break;
+    }
+    case 'boolean': {
+      if (typeof value !== 'boolean') {
+        return [`${path}: expected boolean, got ${describe(value)}`];
+      }
+      break;
+    }
+  }
+
+  return errors;
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.slice(0, 30)}"`;
+  return typeof value;
+}
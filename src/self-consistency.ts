@@ -0,0 +1,123 @@
+/**
+ * Self-consistency extraction (--samples)
+ *
+ * One extraction run gives a somewhat arbitrary claim set. This runs
+ * extractClaims several times, aligns the claims across runs by word
+ * overlap, and keeps the claims that at least `minAgreement` runs found.
+ * Each kept claim records its agreement: the share of runs that found it
+ * and the importance each gave it. The runs sample at a higher temperature
+ * than a single extraction, so that they can disagree.
+ */
+
+import { extractClaims } from './extract-claims.js';
+import { combineResponses } from './structured-output.js';
+import { wordSetSimilarity } from './text-similarity.js';
+import type { ClaimExtractionOptions } from './extract-claims.js';
+import type { Cable, Claim, LLMResponse } from './types.js';
+
+// Claims from different runs at least this similar are the same claim
+const ALIGN_SIMILARITY = 0.5;
+
+export const DEFAULT_SAMPLE_TEMPERATURE = 0.8;
+
+export interface ConsensusOptions extends ClaimExtractionOptions {
+  samples: number;
+  minAgreement?: number;  // Default: a majority of the samples
+  temperature?: number;   // Sampling temperature of each run (default: 0.8)
+}
+
+interface ClaimCluster {
+  members: Array<{ run: number; claim: Claim }>;
+}
+
+/**
+ * Extract claims `samples` times and keep those found by enough runs
+ */
+export async function extractClaimsWithConsensus(
+  cable: Cable,
+  options: ConsensusOptions
+): Promise<{ claims: Claim[]; response: LLMResponse }> {
+  const {
+    samples,
+    minAgreement = defaultMinAgreement(samples),
+    temperature = DEFAULT_SAMPLE_TEMPERATURE,
+    ...extractOptions
+  } = options;
+
+  console.log(`  [Claims] Self-consistency: ${samples} extraction runs at temperature ${temperature}...`);
+  const runs = await Promise.all(
+    Array.from({ length: samples }, (_, index) =>
+      extractClaims(cable, { ...extractOptions, sample: { index, temperature } })
+    )
+  );
+
+  const clusters = alignClaims(runs.map((r) => r.claims));
+  const kept = clusters.filter((c) => c.members.length >= minAgreement);
+  console.log(
+    `  [Claims] ${clusters.length} distinct claims across runs; kept ${kept.length} found in >= ${minAgreement} of ${samples}`
+  );
+
+  const claims = kept.map((cluster, idx) => ({
+    ...representative(cluster),
+    claim_id: `c${idx + 1}`,
+    agreement: {
+      score: Math.round((cluster.members.length / samples) * 100) / 100,
+      runs: cluster.members.length,
+      samples,
+      importance_votes: cluster.members.map((m) => m.claim.importance),
+    },
+  }));
+
+  return { claims, response: combineResponses(runs.map((r) => r.response)) };
+}
+
+export function defaultMinAgreement(samples: number): number {
+  return Math.floor(samples / 2) + 1;
+}
+
+/**
+ * Group the claims of each run with their counterparts from the other runs.
+ * A cluster takes at most one claim per run: the most similar one.
+ */
+export function alignClaims(runs: Claim[][]): ClaimCluster[] {
+  const clusters: ClaimCluster[] = [];
+
+  runs.forEach((claims, run) => {
+    const open = new Set(clusters);
+    for (const claim of claims) {
+      let best: ClaimCluster | null = null;
+      let bestSimilarity = ALIGN_SIMILARITY;
+      for (const cluster of open) {
+        const similarity = Math.max(
+          ...cluster.members.map((m) => wordSetSimilarity(m.claim.claim_text, claim.claim_text))
+        );
+        if (similarity >= bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (best) {
+        best.members.push({ run, claim });
+        open.delete(best);
+      } else {
+        clusters.push({ members: [{ run, claim }] });
+      }
+    }
+  });
+
+  return clusters;
+}
+
+/**
+ * The member closest to the others, with the median importance
+ */
+function representative(cluster: ClaimCluster): Claim {
+  const claims = cluster.members.map((m) => m.claim);
+  const centrality = (claim: Claim) =>
+    claims.reduce((sum, other) => sum + (other === claim ? 0 : wordSetSimilarity(claim.claim_text, other.claim_text)), 0);
+  const central = claims.reduce((best, claim) => (centrality(claim) > centrality(best) ? claim : best));
+
+  const importances = claims.map((c) => c.importance).sort((a, b) => a - b);
+  return { ...central, importance: importances[Math.floor((importances.length - 1) / 2)] };
+}
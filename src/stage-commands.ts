@@ -0,0 +1,249 @@
+/**
+ * Stage subcommands
+ *
+ * Re-run a single pipeline stage over the {doc_id}.json files already in an
+ * output directory and write them back, e.g. to re-score leakage with a new
+ * checker without any LLM calls:
+ *
+ *   npx tsx src/index.ts leakage --output output-csv-targets
+ *
+ * Every command finishes by rebuilding extractions.jsonl and
+ * batch-summary.md from all outputs in the directory.
+ */
+
+import { CostLedger, BudgetExceededError } from './cost-ledger.js';
+import { runPool } from './concurrency.js';
+import { describeModels } from './llm-provider.js';
+import { CacheMissError } from './llm-cache.js';
+import {
+  runClaimsStage,
+  runEntitiesStage,
+  runVerificationStage,
+  runRelationsStage,
+  runQuestionsStage,
+  runLeakageStage,
+  runChainLeakageStage,
+  runLadderLeakageStage,
+  runValidationStage,
+  runRegenerationStage,
+  runCoverageStage,
+  runChainsStage,
+  runLadderStage,
+  runAnswersStage,
+  reportLeakage,
+} from './pipeline-stages.js';
+import { cableFromOutput, readAllCableOutputs, writeCableOutputs, writeCombinedOutputs } from './output-files.js';
+import type { StageOptions } from './pipeline-stages.js';
+import type { Cable, ExtractionOutput, LLMStage } from './types.js';
+
+export const STAGE_COMMANDS = [
+  'extract',
+  'entities',
+  'verify',
+  'relations',
+  'questions',
+  'leakage',
+  'validate',
+  'regenerate',
+  'coverage',
+  'chains',
+  'ladder',
+  'answers',
+  'report',
+  'summary',
+] as const;
+
+export type StageCommand = (typeof STAGE_COMMANDS)[number];
+
+export interface StageCommandOptions extends StageOptions {
+  outputDir: string;
+  docId?: string;
+  limit?: number;
+  offset?: number;
+  concurrency?: number;
+  inputCables?: Cable[];  // From --csv / --rag-csv, for outputs saved without their cable
+}
+
+export function isStageCommand(value: string): value is StageCommand {
+  return (STAGE_COMMANDS as readonly string[]).includes(value);
+}
+
+export async function runStageCommand(command: StageCommand, options: StageCommandOptions): Promise<void> {
+  let outputs = readAllCableOutputs(options.outputDir);
+  if (options.docId) {
+    outputs = outputs.filter((o) => o.doc_id === options.docId);
+  }
+  const offset = options.offset || 0;
+  outputs = outputs.slice(offset, options.limit !== undefined ? offset + options.limit : undefined);
+
+  console.log(`\n🔧 ${command}: ${outputs.length} outputs in ${options.outputDir}`);
+
+  if (command !== 'summary') {
+    const inputCables = new Map((options.inputCables || []).map((c) => [c.doc_nbr, c]));
+    let updated = 0;
+    let stoppedForBudget = false;
+    let fatalError: unknown = null;
+
+    await runPool(
+      outputs,
+      options.concurrency || 1,
+      async (output, i) => {
+        console.log(`\n[${i + 1}/${outputs.length}] ${output.doc_id}`);
+        try {
+          const cable = inputCables.get(output.doc_id) || cableFromOutput(output);
+          const result = await runStage(command, output, cable, options);
+          writeCableOutputs(options.outputDir, cable, result);
+          updated++;
+        } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            console.log(`\n💰 ${error.message}; ${output.doc_id} not updated`);
+            stoppedForBudget = true;
+            return;
+          }
+          if (error instanceof CacheMissError) {
+            fatalError = fatalError || error;
+            return;
+          }
+          console.error(`\n❌ Error running ${command} on ${output.doc_id}:`, error);
+        }
+      },
+      () => stoppedForBudget || fatalError !== null
+    );
+
+    if (fatalError) throw fatalError;
+    console.log(`\n✓ Updated ${updated} of ${outputs.length} outputs`);
+  }
+
+  // Combined outputs cover the whole directory, not just the selection
+  const written = writeCombinedOutputs(options.outputDir, readAllCableOutputs(options.outputDir));
+  for (const file of written) {
+    console.log(`   - ${file}`);
+  }
+}
+
+/**
+ * Re-run one stage on a saved output. Later stages that depend on it are
+ * not re-run: new claims clear the questions, and new questions are given
+ * rule-based leakage scores so they are never saved unscored.
+ */
+async function runStage(
+  command: Exclude<StageCommand, 'summary'>,
+  output: ExtractionOutput,
+  cable: Cable,
+  options: StageOptions
+): Promise<ExtractionOutput> {
+  const ledger = new CostLedger();
+  let { claims, questions, coverage } = output;
+  let queryChains = output.query_chains;
+  let hintLadders = output.hint_ladders;
+  let relations = output.claim_relations;
+
+  switch (command) {
+    case 'extract':
+      if (!cable.body) {
+        throw new Error(`No cable body saved for ${output.doc_id}; pass the input with --csv or --rag-csv`);
+      }
+      claims = await runClaimsStage(cable, ledger, options);
+      claims = await runEntitiesStage(cable, claims, ledger, options);
+      if (questions.length > 0) {
+        console.log(`   ⚠️  Cleared ${questions.length} questions for the old claims; run \`questions\` next`);
+      }
+      questions = [];
+      coverage = undefined;
+      queryChains = undefined;
+      hintLadders = undefined;
+      if (relations) {
+        console.log(`   ⚠️  Cleared ${relations.length} claim relations for the old claims; run \`relations\` next`);
+      }
+      relations = undefined;
+      break;
+    case 'entities':
+      claims = await runEntitiesStage(cable, claims, ledger, options);
+      break;
+    case 'verify':
+      if (!cable.body) {
+        throw new Error(`No cable body saved for ${output.doc_id}; pass the input with --csv or --rag-csv`);
+      }
+      claims = await runVerificationStage(cable, claims, ledger, options);
+      break;
+    case 'relations':
+      relations = await runRelationsStage(cable, claims, ledger, options);
+      break;
+    case 'questions':
+      questions = await runQuestionsStage(cable, claims, ledger, options, relations);
+      questions = runLeakageStage(questions, claims);
+      coverage = undefined;
+      reportLeakage(questions, claims, options);
+      break;
+    case 'leakage':
+      questions = runLeakageStage(questions, claims);
+      if (queryChains) queryChains = runChainLeakageStage(queryChains, claims);
+      if (hintLadders) hintLadders = runLadderLeakageStage(hintLadders, claims);
+      reportLeakage(questions, claims, options);
+      break;
+    case 'validate':
+      questions = await runValidationStage(questions, claims, ledger, options);
+      reportLeakage(questions, claims, options);
+      break;
+    case 'regenerate':
+      questions = await runRegenerationStage(cable, questions, claims, ledger, options);
+      reportLeakage(questions, claims, options);
+      break;
+    case 'coverage':
+      ({ questions, coverage } = await runCoverageStage(cable, questions, claims, ledger, options));
+      reportLeakage(questions, claims, options);
+      break;
+    case 'chains':
+      queryChains = await runChainsStage(cable, claims, ledger, options);
+      break;
+    case 'ladder':
+      hintLadders = await runLadderStage(cable, claims, ledger, options);
+      break;
+    case 'answers':
+      questions = runAnswersStage(questions, claims);
+      break;
+    case 'report':
+      break;
+  }
+
+  // Keep the cable in the output once it is known
+  return withStageCosts(
+    {
+      ...output,
+      cable: cable.body ? cable : output.cable,
+      claims,
+      claim_relations: relations,
+      questions,
+      coverage,
+      query_chains: queryChains,
+      hint_ladders: hintLadders,
+    },
+    ledger
+  );
+}
+
+/**
+ * Replace the costs of the stages that were re-run and recompute the totals
+ */
+function withStageCosts(output: ExtractionOutput, ledger: CostLedger): ExtractionOutput {
+  const rerun = ledger.breakdown();
+  const stages = Object.keys(rerun) as LLMStage[];
+  if (stages.length === 0) return output;
+
+  const models = new Set([...output.metadata.model.split(', '), ...describeModels(stages).split(', ')]);
+  const metadata = { ...output.metadata, model: [...models].filter(Boolean).join(', ') };
+
+  if (output.metadata.stage_costs) {
+    const stageCosts = { ...output.metadata.stage_costs, ...rerun };
+    const costs = Object.values(stageCosts);
+    metadata.stage_costs = stageCosts;
+    metadata.total_tokens = costs.reduce((sum, c) => sum + c.tokens, 0);
+    metadata.cost_usd = costs.reduce((sum, c) => sum + c.cost_usd, 0);
+  } else {
+    // Older outputs have no breakdown to replace into, so add to the totals
+    metadata.total_tokens += ledger.totalTokens;
+    metadata.cost_usd += ledger.totalCost;
+  }
+
+  return { ...output, metadata };
+}
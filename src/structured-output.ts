@@ -0,0 +1,96 @@
+/**
+ * Schema-enforced JSON generation with repair retries
+ *
+ * The schema is sent to the provider (responseSchema / json_schema) and the
+ * parsed response is validated again at runtime. On failure the model gets
+ * one targeted repair prompt listing the validation errors; if the repaired
+ * response is still invalid a SchemaValidationError is thrown.
+ */
+
+import { validateSchema } from './schemas.js';
+import type { JSONSchema } from './schemas.js';
+import type { LLMProvider } from './llm-provider.js';
+import type { LLMResponse } from './types.js';
+
+const MAX_REPAIR_ATTEMPTS = 1;
+const MAX_ERRORS_IN_PROMPT = 20;
+
+export class SchemaValidationError extends Error {
+  constructor(
+    readonly label: string,
+    readonly errors: string[],
+    readonly content: string
+  ) {
+    super(`${label}: response failed schema validation (${errors.length} errors): ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+export interface StructuredOptions {
+  label?: string;          // Used in logs and errors, e.g. "claims"
+  maxRepairAttempts?: number;
+}
+
+export async function generateStructured<T>(
+  client: LLMProvider,
+  systemPrompt: string,
+  userPrompt: string,
+  schema: JSONSchema,
+  options: StructuredOptions = {}
+): Promise<{ data: T; response: LLMResponse }> {
+  const { label = 'response', maxRepairAttempts = MAX_REPAIR_ATTEMPTS } = options;
+
+  const responses: LLMResponse[] = [];
+  let { data, response } = await client.generateJSON<T>(systemPrompt, userPrompt, schema);
+  responses.push(response);
+  let errors = validateSchema(data, schema);
+
+  for (let attempt = 1; errors.length > 0 && attempt <= maxRepairAttempts; attempt++) {
+    console.log(`  [Schema] ${label}: ${errors.length} validation errors, requesting repair (${attempt}/${maxRepairAttempts})...`);
+
+    ({ data, response } = await client.generateJSON<T>(
+      systemPrompt,
+      buildRepairPrompt(userPrompt, response.content, errors),
+      schema
+    ));
+    responses.push(response);
+    errors = validateSchema(data, schema);
+  }
+
+  if (errors.length > 0) {
+    throw new SchemaValidationError(label, errors, response.content);
+  }
+
+  return { data, response: combineResponses(responses) };
+}
+
+function buildRepairPrompt(userPrompt: string, previousContent: string, errors: string[]): string {
+  const listed = errors.slice(0, MAX_ERRORS_IN_PROMPT).map((e) => `- ${e}`);
+  if (errors.length > MAX_ERRORS_IN_PROMPT) {
+    listed.push(`- ... and ${errors.length - MAX_ERRORS_IN_PROMPT} more`);
+  }
+
+  return `${userPrompt}
+
+--- YOUR PREVIOUS RESPONSE ---
+${previousContent}
+--- END PREVIOUS RESPONSE ---
+
+Your previous response did not match the required JSON structure:
+${listed.join('\n')}
+
+Return the complete corrected JSON. Fix only the problems listed above and keep everything else unchanged.`;
+}
+
+/**
+ * Sum token counts and cost across several calls (content is the last call's)
+ */
+export function combineResponses(responses: LLMResponse[]): LLMResponse {
+  return {
+    content: responses[responses.length - 1]?.content || '',
+    tokens: responses.reduce((sum, r) => sum + r.tokens, 0),
+    prompt_tokens: responses.reduce((sum, r) => sum + r.prompt_tokens, 0),
+    completion_tokens: responses.reduce((sum, r) => sum + r.completion_tokens, 0),
+    cost_usd: responses.reduce((sum, r) => sum + r.cost_usd, 0),
+  };
+}
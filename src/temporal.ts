@@ -0,0 +1,395 @@
+/**
+ * Temporal normalization
+ *
+ * Resolves the free-form time expressions in claims ("1975-02", "late
+ * September", "Sept 30", "yesterday", "next month") into ISO date
+ * intervals, anchored to the cable's date. Each interval records its
+ * granularity (day/month/quarter/year) and any problems that make it
+ * impossible (an end before its start, a non-existent date, an event
+ * dated after the cable reporting it).
+ */
+
+import type { Claim, TimeGranularity, TimeInterval } from './types.js';
+
+const GRANULARITY_RANK: Record<TimeGranularity, number> = { day: 0, month: 1, quarter: 2, year: 3 };
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4, may: 5,
+  jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12,
+};
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const ORDINAL_QUARTERS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4 };
+
+// Claim types that describe something that has already happened
+const PAST_CLAIM_TYPES = new Set(['event', 'attribution']);
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Resolve one time expression to an interval. Expressions without a year,
+ * and relative ones, need an anchor (the cable date); when the anchor is
+ * coarser than the expression (e.g. "yesterday" in a cable dated only
+ * "1976"), the result is as coarse as the anchor.
+ */
+export function parseTimeExpression(expression: string, anchor: TimeInterval | null = null): TimeInterval | null {
+  const expr = expression.toLowerCase().replace(/[.,]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!expr) return null;
+
+  let match: RegExpMatchArray | null;
+
+  // ISO forms: 1976-03-30, 1976-03, 1976, 1976-Q1
+  if ((match = expr.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/))) {
+    return day(+match[1], +match[2], +match[3], expression);
+  }
+  if ((match = expr.match(/^(\d{4})-(\d{1,2})$/))) {
+    return month(+match[1], +match[2], expression);
+  }
+  if ((match = expr.match(/^(\d{4})$/))) {
+    return year(+match[1], expression);
+  }
+  if ((match = expr.match(/^(\d{4}) ?-? ?q([1-4])$/))) {
+    return quarter(+match[1], +match[2], expression);
+  }
+  if ((match = expr.match(/^q([1-4]) (\d{4})$/))) {
+    return quarter(+match[2], +match[1], expression);
+  }
+
+  // first quarter of 1976, third quarter
+  if ((match = expr.match(/^(?:the )?(first|second|third|fourth) quarter(?: of)?(?: (\d{2,4}))?$/))) {
+    const y = match[2] ? fullYear(match[2]) : anchorYear(anchor);
+    return y === null ? null : quarter(y, ORDINAL_QUARTERS[match[1]], expression);
+  }
+
+  // early 1976, mid-1975, late 1975
+  if ((match = expr.match(/^(early|mid|late)[- ]?(\d{4})$/))) {
+    const y = +match[2];
+    const [from, to] = { early: [1, 4], mid: [5, 8], late: [9, 12] }[match[1] as 'early' | 'mid' | 'late'];
+    return interval(isoDate(y, from, 1), isoDate(y, to, daysInMonth(y, to)), 'year', expression);
+  }
+
+  // late September, early Sept 1976
+  if ((match = expr.match(new RegExp(`^(early|mid|late)[- ]?(${MONTH_PATTERN})(?: (\\d{2,4}))?$`)))) {
+    const m = MONTHS[match[2]];
+    const y = match[3] ? fullYear(match[3]) : closestYear(m, 15, anchor);
+    if (y === null) return null;
+    const [from, to] = { early: [1, 10], mid: [11, 20], late: [21, daysInMonth(y, m)] }[match[1] as 'early' | 'mid' | 'late'];
+    return interval(isoDate(y, m, from), isoDate(y, m, to), 'month', expression);
+  }
+
+  // Sept 30, September 30th 1976
+  if ((match = expr.match(new RegExp(`^(${MONTH_PATTERN}) (\\d{1,2})(?:st|nd|rd|th)?(?: (\\d{2,4}))?$`)))) {
+    const m = MONTHS[match[1]];
+    const d = +match[2];
+    const y = match[3] ? fullYear(match[3]) : closestYear(m, d, anchor);
+    return y === null ? null : day(y, m, d, expression);
+  }
+
+  // 30 September 1976, 30 SEP 75
+  if ((match = expr.match(new RegExp(`^(\\d{1,2}) (${MONTH_PATTERN})(?: (\\d{2,4}))?$`)))) {
+    const m = MONTHS[match[2]];
+    const d = +match[1];
+    const y = match[3] ? fullYear(match[3]) : closestYear(m, d, anchor);
+    return y === null ? null : day(y, m, d, expression);
+  }
+
+  // September 1976, September
+  if ((match = expr.match(new RegExp(`^(?:in )?(${MONTH_PATTERN})(?: (?:of )?(\\d{2,4}))?$`)))) {
+    const m = MONTHS[match[1]];
+    const y = match[2] ? fullYear(match[2]) : closestYear(m, 15, anchor);
+    return y === null ? null : month(y, m, expression);
+  }
+
+  return anchor ? parseRelative(expr, anchor, expression) : null;
+}
+
+/**
+ * Relative expressions: yesterday, last month, next year, three days ago...
+ */
+function parseRelative(expr: string, anchor: TimeInterval, expression: string): TimeInterval | null {
+  let match: RegExpMatchArray | null;
+
+  const named: Record<string, [TimeGranularity, number]> = {
+    today: ['day', 0], yesterday: ['day', -1], tomorrow: ['day', 1],
+    'the previous day': ['day', -1], 'the day before': ['day', -1], 'the following day': ['day', 1],
+  };
+  if (named[expr]) {
+    return shift(anchor, named[expr][0], named[expr][1], expression);
+  }
+
+  if ((match = expr.match(/^(?:earlier |later )?(this|last|next|previous|the past|the coming) (week|month|quarter|year)$/))) {
+    const offset = { this: 0, last: -1, previous: -1, 'the past': -1, next: 1, 'the coming': 1 }[match[1]]!;
+    const unit = match[2] === 'week' ? 'day' : (match[2] as TimeGranularity);
+    return shift(anchor, unit, match[2] === 'week' ? offset * 7 : offset, expression, match[2] === 'week' ? 7 : 1);
+  }
+
+  if ((match = expr.match(/^(\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten) (day|week|month|year)s? (ago|earlier|later|from now)$/))) {
+    const n = NUMBER_WORDS[match[1]] ?? +match[1];
+    const sign = match[3] === 'ago' || match[3] === 'earlier' ? -1 : 1;
+    const unit = match[2] === 'week' ? 'day' : (match[2] as TimeGranularity);
+    return shift(anchor, unit, sign * n * (match[2] === 'week' ? 7 : 1), expression);
+  }
+
+  // "in three months" is the day or month it happens; "within three
+  // months" is all of the time from the anchor up to then
+  if ((match = expr.match(/^(within|in) (\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten) (day|week|month|year)s?$/))) {
+    const n = NUMBER_WORDS[match[2]] ?? +match[2];
+    const unit = match[3] === 'week' ? 'day' : (match[3] as TimeGranularity);
+    const shifted = shift(anchor, unit, n * (match[3] === 'week' ? 7 : 1), expression);
+    return shifted && match[1] === 'within' ? { ...shifted, start: anchor.start } : shifted;
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Claims
+// =============================================================================
+
+/**
+ * Normalize a claim's time_bounds (or, without them, the first time
+ * expression in its text) against the cable date
+ */
+export function normalizeClaimTime(claim: Claim, cableDate: string): Claim {
+  const anchor = parseTimeExpression(cableDate);
+  const bounds = claim.time_bounds;
+
+  let result: TimeInterval | null = null;
+  if (bounds?.start || bounds?.end) {
+    result = normalizeTimeBounds(bounds, anchor);
+  } else {
+    const expression = findTimeExpressions(claim.claim_text)[0];
+    result = expression ? parseTimeExpression(expression, anchor) : null;
+  }
+  if (!result) return claim;
+
+  const issues = [...(result.issues || [])];
+  // Something that already happened can't postdate the cable reporting it
+  if (anchor && PAST_CLAIM_TYPES.has(claim.claim_type) && result.start > anchor.end) {
+    issues.push(`starts after the cable date (${anchor.end})`);
+  }
+
+  return { ...claim, time_interval: issues.length > 0 ? { ...result, issues } : result };
+}
+
+/**
+ * Combine normalized start and end expressions into one interval
+ */
+export function normalizeTimeBounds(
+  bounds: { start?: string | null; end?: string | null },
+  anchor: TimeInterval | null
+): TimeInterval | null {
+  const issues: string[] = [];
+
+  const parse = (expression: string | null | undefined): TimeInterval | null => {
+    if (!expression) return null;
+    const parsed = parseTimeExpression(expression, anchor);
+    if (!parsed && /^\d{4}-\d{1,2}(-\d{1,2})?$/.test(expression.trim())) {
+      issues.push(`"${expression}" is not a valid date`);
+    }
+    return parsed;
+  };
+
+  const start = parse(bounds.start);
+  const end = parse(bounds.end);
+  if (!start && !end) {
+    return issues.length > 0 ? { start: '', end: '', granularity: 'day', expression: describeBounds(bounds), issues } : null;
+  }
+
+  const from = start || end!;
+  const to = end || start!;
+  if (to.end < from.start) {
+    issues.push(`ends (${to.end}) before it starts (${from.start})`);
+  }
+
+  return {
+    start: from.start,
+    end: to.end,
+    granularity: coarser(from.granularity, to.granularity),
+    expression: describeBounds(bounds),
+    ...(issues.length > 0 ? { issues } : {}),
+  };
+}
+
+/**
+ * Absolute time expressions in free text, in order of appearance
+ * (relative ones like "yesterday" included)
+ */
+export function findTimeExpressions(text: string): string[] {
+  const patterns = [
+    `\\b\\d{4}-\\d{1,2}(?:-\\d{1,2})?\\b`,
+    `\\b(?:early|mid|late)[- ]?(?:${MONTH_PATTERN})\\.?(?: \\d{4})?\\b`,
+    `\\b(?:early|mid|late)[- ]?\\d{4}\\b`,
+    `\\b(?:${MONTH_PATTERN})\\.? \\d{1,2}(?:st|nd|rd|th)?(?:,? \\d{4})?\\b`,
+    `\\b\\d{1,2} (?:${MONTH_PATTERN})\\.?(?:,? \\d{2,4})?\\b`,
+    `\\b(?:${MONTH_PATTERN})\\.?,? (?:of )?\\d{4}\\b`,
+    // Bare month names, leaving out "May" (too often the verb)
+    `\\b(?:january|february|march|april|june|july|august|september|october|november|december)\\b`,
+    `\\b(?:first|second|third|fourth) quarter(?: of)?(?: \\d{4})?\\b`,
+    `\\b(?:yesterday|today|tomorrow)\\b`,
+    `\\b(?:this|last|next) (?:week|month|quarter|year)\\b`,
+    `\\b(?:\\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten) (?:day|week|month|year)s? (?:ago|earlier|later)\\b`,
+  ];
+  const combined = new RegExp(patterns.join('|'), 'gi');
+
+  const found: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = combined.exec(text)) !== null) {
+    found.push(match[0]);
+  }
+  return found;
+}
+
+// =============================================================================
+// Hints and Comparisons
+// =============================================================================
+
+/**
+ * A deliberately vague window for question hints: "early 1976", "1975",
+ * "1975-1976"
+ */
+export function describeTimeWindow(intervals: TimeInterval[]): string | undefined {
+  const valid = intervals.filter((i) => i.start && i.end && !i.issues?.length);
+  if (valid.length === 0) return undefined;
+
+  const start = valid.map((i) => i.start).sort()[0];
+  const end = valid.map((i) => i.end).sort().reverse()[0];
+  const startYear = +start.slice(0, 4);
+  const endYear = +end.slice(0, 4);
+
+  if (startYear !== endYear) return `${startYear}-${endYear}`;
+  if (valid.every((i) => i.granularity === 'year') && start.endsWith('01-01') && end.endsWith('12-31')) {
+    return `${startYear}`;
+  }
+
+  const part = (month: number) => (month <= 4 ? 'early' : month <= 8 ? 'mid' : 'late');
+  const startPart = part(+start.slice(5, 7));
+  const endPart = part(+end.slice(5, 7));
+  return startPart === endPart ? `${startPart} ${startYear}` : `${startYear}`;
+}
+
+export function intervalsOverlap(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start <= b.end && b.start <= a.end;
+}
+
+/**
+ * Format an interval for display, e.g. "1976-03-01 → 1976-03-31 (month)"
+ */
+export function formatInterval(interval: TimeInterval): string {
+  if (!interval.start) return interval.expression;
+  const range = interval.start === interval.end ? interval.start : `${interval.start} → ${interval.end}`;
+  return `${range} (${interval.granularity})`;
+}
+
+export function isFinerThan(a: TimeGranularity, b: TimeGranularity): boolean {
+  return GRANULARITY_RANK[a] < GRANULARITY_RANK[b];
+}
+
+// =============================================================================
+// Date Helpers
+// =============================================================================
+
+function day(y: number, m: number, d: number, expression: string): TimeInterval | null {
+  if (m < 1 || m > 12 || d < 1 || d > daysInMonth(y, m)) return null;
+  const date = isoDate(y, m, d);
+  return interval(date, date, 'day', expression);
+}
+
+function month(y: number, m: number, expression: string): TimeInterval | null {
+  if (m < 1 || m > 12) return null;
+  return interval(isoDate(y, m, 1), isoDate(y, m, daysInMonth(y, m)), 'month', expression);
+}
+
+function quarter(y: number, q: number, expression: string): TimeInterval {
+  const first = (q - 1) * 3 + 1;
+  return interval(isoDate(y, first, 1), isoDate(y, first + 2, daysInMonth(y, first + 2)), 'quarter', expression);
+}
+
+function year(y: number, expression: string): TimeInterval {
+  return interval(isoDate(y, 1, 1), isoDate(y, 12, 31), 'year', expression);
+}
+
+function interval(start: string, end: string, granularity: TimeGranularity, expression: string): TimeInterval {
+  return { start, end, granularity, expression };
+}
+
+/**
+ * Move the anchor by `amount` units. When the anchor is coarser than the
+ * unit, the anchor's own period is the best answer available.
+ */
+function shift(
+  anchor: TimeInterval,
+  unit: TimeGranularity,
+  amount: number,
+  expression: string,
+  spanDays = 1
+): TimeInterval | null {
+  if (isFinerThan(unit, anchor.granularity)) {
+    return { ...anchor, expression };
+  }
+
+  const [y, m, d] = anchor.start.split('-').map(Number);
+  switch (unit) {
+    case 'day': {
+      const start = new Date(Date.UTC(y, m - 1, d + amount));
+      const end = new Date(Date.UTC(y, m - 1, d + amount + spanDays - 1));
+      return interval(start.toISOString().slice(0, 10), end.toISOString().slice(0, 10), 'day', expression);
+    }
+    case 'month': {
+      const target = new Date(Date.UTC(y, m - 1 + amount, 1));
+      return month(target.getUTCFullYear(), target.getUTCMonth() + 1, expression);
+    }
+    case 'quarter': {
+      const target = new Date(Date.UTC(y, m - 1 + amount * 3, 1));
+      return quarter(target.getUTCFullYear(), Math.floor(target.getUTCMonth() / 3) + 1, expression);
+    }
+    case 'year':
+      return year(y + amount, expression);
+  }
+}
+
+function coarser(a: TimeGranularity, b: TimeGranularity): TimeGranularity {
+  return GRANULARITY_RANK[a] >= GRANULARITY_RANK[b] ? a : b;
+}
+
+function fullYear(text: string): number {
+  const y = +text;
+  // Two-digit years in cables are 19xx
+  return text.length === 2 ? 1900 + y : y;
+}
+
+function anchorYear(anchor: TimeInterval | null): number | null {
+  return anchor ? +anchor.start.slice(0, 4) : null;
+}
+
+/**
+ * Year for a date given without one: whichever puts it closest to the anchor
+ */
+function closestYear(m: number, d: number, anchor: TimeInterval | null): number | null {
+  const base = anchorYear(anchor);
+  if (base === null || !anchor) return null;
+
+  const anchorTime = Date.parse(anchor.start);
+  return [base - 1, base, base + 1].sort(
+    (a, b) => Math.abs(Date.UTC(a, m - 1, d) - anchorTime) - Math.abs(Date.UTC(b, m - 1, d) - anchorTime)
+  )[0];
+}
+
+function daysInMonth(y: number, m: number): number {
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+function isoDate(y: number, m: number, d: number): string {
+  return `${String(y).padStart(4, '0')}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+function describeBounds(bounds: { start?: string | null; end?: string | null }): string {
+  return [bounds.start, bounds.end].filter(Boolean).join(' to ');
+}
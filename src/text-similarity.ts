@@ -0,0 +1,65 @@
+/**
+ * Lexical similarity helpers for comparing claim texts
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'by',
+  'with', 'from', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'has', 'have',
+  'had', 'that', 'this', 'these', 'those', 'it', 'its', 'will', 'would', 'not',
+]);
+
+/**
+ * Lowercased words with punctuation stripped
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s'-]/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 0);
+}
+
+/**
+ * Distinct words that carry meaning (stop words removed)
+ */
+export function contentWords(text: string): Set<string> {
+  return new Set(tokenize(text).filter((w) => !STOP_WORDS.has(w)));
+}
+
+/**
+ * Jaccard similarity of the content words of two texts (0-1)
+ */
+export function wordSetSimilarity(a: string, b: string): number {
+  const wordsA = contentWords(a);
+  const wordsB = contentWords(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Share of the first text's content words that also appear in the second
+ * (0-1), e.g. how much of a quote a passage covers
+ */
+export function wordCoverage(text: string, within: string): number {
+  const words = contentWords(text);
+  if (words.size === 0) return 0;
+
+  const available = contentWords(within);
+  let covered = 0;
+  for (const word of words) {
+    if (available.has(word)) covered++;
+  }
+  return covered / words.size;
+}
+
+/**
+ * Escape text for use as a literal inside a RegExp
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
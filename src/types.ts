@@ -15,16 +15,115 @@ export type ClaimType =
   | 'attribution'  // Who said/reported something
   | 'other';
 
+/**
+ * How the cable asserts a claim:
+ * - fact: Stated as fact by the cable's author
+ * - reported: Someone else's statement, relayed by the cable
+ * - assessed: The author's (or a named party's) judgment
+ * - speculative: Hedged possibility ("may", "possibly", "it is rumored")
+ * - planned: An intention, proposal, or scheduled action
+ */
+export type ClaimModality = 'fact' | 'reported' | 'assessed' | 'speculative' | 'planned';
+
 export interface Claim {
   claim_id: string;
   claim_text: string;
   claim_type: ClaimType;
   entities: string[];
+  entity_ids?: string[];  // Registry IDs of the entities (see entity-registry.ts)
   time_bounds?: {
     start?: string;
     end?: string;
   };
+  time_interval?: TimeInterval;  // time_bounds resolved against the cable date (see temporal.ts)
   importance: number; // 1-5, where 5 is most important
+  source?: string | null;             // Who asserts the claim (e.g. "Minister Kao", "Embassy")
+  modality?: ClaimModality;
+  confidence_marker?: string | null;  // The cable's hedge words, e.g. "reportedly", "we believe"
+  supporting_quotes?: string[];  // Quotes from the body, as given by the model
+  source_spans?: SourceSpan[];   // Where the quotes were found in the body
+  grounded?: boolean;            // false when no quote could be located
+  verification?: ClaimVerification;  // Set by --verify-claims
+  agreement?: ClaimAgreement;        // Set by --samples
+}
+
+/**
+ * How consistently repeated extraction runs found a claim
+ */
+export interface ClaimAgreement {
+  score: number;              // 0-1, share of the runs that found the claim
+  runs: number;               // Runs that found it
+  samples: number;            // Runs in total
+  importance_votes: number[]; // The importance each of those runs gave it
+}
+
+export type SupportVerdict = 'supported' | 'partially_supported' | 'unsupported';
+
+/**
+ * Faithfulness of a claim to the cable body
+ */
+export interface ClaimVerification {
+  verdict: SupportVerdict;      // Combined verdict
+  llm_verdict: SupportVerdict;  // Entailment judgment from the LLM
+  lexical_overlap: number;      // 0-1, share of the claim's words found in its source
+  reason: string;
+}
+
+/**
+ * A passage of cable.body supporting a claim
+ */
+export interface SourceSpan {
+  start: number;      // Character offsets into cable.body
+  end: number;
+  paragraph: number;  // 1-based, counting blank-line separated paragraphs
+  quote: string;      // The body text at [start, end)
+  similarity: number; // 0-1, how closely it matches the model's quote
+}
+
+export type TimeGranularity = 'day' | 'month' | 'quarter' | 'year';
+
+/**
+ * A time expression resolved to ISO dates
+ */
+export interface TimeInterval {
+  start: string;        // YYYY-MM-DD, inclusive
+  end: string;          // YYYY-MM-DD, inclusive
+  granularity: TimeGranularity;
+  expression: string;   // The text it was resolved from
+  issues?: string[];    // Why the interval is impossible, if it is
+}
+
+// =============================================================================
+// Claim Relations
+// =============================================================================
+
+export type ClaimRelationType = 'supports' | 'contradicts' | 'elaborates' | 'causes' | 'temporal-precedes';
+
+/**
+ * A typed link between two claims of the same cable, read as
+ * "`from` supports / contradicts / elaborates / causes / precedes `to`"
+ */
+export interface ClaimRelation {
+  from: string;  // claim_id
+  to: string;    // claim_id
+  type: ClaimRelationType;
+  reason?: string;
+}
+
+// =============================================================================
+// Entity Registry
+// =============================================================================
+
+export type EntityType = 'person' | 'country' | 'org' | 'place' | 'weapon_system' | 'other';
+
+/**
+ * One real-world entity and every surface form it has appeared under
+ */
+export interface EntityRecord {
+  id: string;              // e.g. "person:kao-kuei-yuan"
+  name: string;            // Canonical display name
+  type: EntityType;
+  aliases: string[];       // Surface forms, e.g. ["Minister Kao", "Kao"]
 }
 
 // =============================================================================
@@ -46,19 +145,73 @@ export type AnswerType =
  * - targeted: Directly probes a specific claim (factoid-style)
  * - contextual: Asks about the broader situation/context (exploratory)
  * - thematic: Asks about themes, relationships, or patterns across the domain
+ * - multi_hop: Needs two or more claims put together (mosaic), with one
+ *   sub-question per claim
  */
-export type QuestionStyle = 'targeted' | 'contextual' | 'thematic';
+export type QuestionStyle = 'targeted' | 'contextual' | 'thematic' | 'multi_hop';
 
 export interface Question {
   question_id: string;
   targets_claim_id: string;       // For targeted questions, the specific claim
-  targets_claim_ids?: string[];   // For contextual/thematic, may relate to multiple claims
+  targets_claim_ids?: string[];   // For contextual/thematic/multi_hop, may relate to multiple claims
   question_text: string;
   question_style: QuestionStyle;
   answer_type: AnswerType;
   allowed_hints: string[];  // e.g., ["time_window", "region", "org_type"]
+  time_window?: string;     // Coarse period for the time_window hint, e.g. "early 1976"
   banned_terms: string[];   // terms that shouldn't appear in question
   leakage_score: number;    // 0-1, lower is better
+  reference_answer?: ReferenceAnswer;
+  sub_questions?: SubQuestion[];  // multi_hop: the decomposition, one per target claim
+  validation?: Omit<ValidationResult, 'question_id'>;  // Set by --validate-leakage
+  regeneration?: QuestionRegeneration;                 // Set by --regenerate
+  hint_level?: number;      // --hint-ladder variants: the rung, 0 for no hints
+}
+
+/**
+ * One step of a multi_hop question, answered by a single claim
+ */
+export interface SubQuestion {
+  question_id: string;  // The parent's ID and the step, e.g. "m1.2"
+  claim_id: string;
+  question_text: string;
+  answer_type: AnswerType;
+  leakage_score: number;
+}
+
+/**
+ * What a correct answer to a question says, for grading RAG runs
+ */
+export interface ReferenceAnswer {
+  text: string;               // The target claims, which a full answer conveys
+  claim_ids: string[];
+  spans: SourceSpan[];        // Where the cable body supports them
+  variants: AnswerVariant[];  // Acceptable short answers for the answer_type
+}
+
+/**
+ * An acceptable short answer: any name of an entity (who, where, list), a
+ * number within tolerance (numeric) or a date within a range (when)
+ */
+export type AnswerVariant =
+  | { kind: 'alias'; entity: string; aliases: string[] }
+  | { kind: 'numeric'; value: number; min: number; max: number; expression: string }
+  | { kind: 'date'; start: string; end: string; expression: string };
+
+/**
+ * The rewrites of a question that scored above the leakage threshold
+ */
+export interface QuestionRegeneration {
+  status: 'fixed' | 'unfixable';  // unfixable: no version got below the threshold
+  attempts: RegenerationAttempt[];  // The original question first
+}
+
+export interface RegenerationAttempt {
+  attempt: number;          // 0 for the original question
+  question_text: string;
+  leakage_score: number;
+  issues: string[];         // Rule-based leakage issues
+  validator_reason?: string;
 }
 
 // =============================================================================
@@ -69,16 +222,116 @@ export interface ExtractionOutput {
   doc_id: string;
   doc_subject: string;
   doc_date?: string;
+  cable?: Cable;  // Input cable, so stage subcommands can re-run from this file alone
   claims: Claim[];
+  claim_relations?: ClaimRelation[];  // Set by --claim-relations
   questions: Question[];
+  coverage?: CoverageSummary;         // Set by --coverage
+  query_chains?: QueryChain[];        // Set by --query-chains
+  hint_ladders?: HintLadder[];        // Set by --hint-ladder
   metadata: {
     extraction_timestamp: string;
     model: string;
     total_tokens: number;
     cost_usd: number;
+    stage_costs?: Partial<Record<LLMStage, StageCost>>;
   };
 }
 
+/**
+ * Which important claims have a usable question (leakage at or below the
+ * threshold), after follow-up questions were generated for the gaps
+ */
+export interface CoverageSummary {
+  min_importance: number;
+  threshold: number;
+  required: number;      // Claims at or above min_importance
+  covered: number;
+  follow_ups: number;    // Follow-up questions added
+  uncovered: string[];   // claim_ids still without a usable question
+}
+
+/**
+ * An ordered chain of queries that each look innocuous on their own, but
+ * whose answers together reconstruct an important claim (--query-chains)
+ */
+export interface QueryChain {
+  chain_id: string;          // e.g. "qc1"
+  claim_id: string;
+  queries: ChainQuery[];     // In the order they would be asked
+  banned_terms: string[];
+  chain_leakage: number;     // checkLeakage over all the queries joined together
+  chain_issues: string[];
+  reconstruction: number;    // 0-1, share of the claim's content words the answers reveal
+  innocuous: boolean;        // Every query is at or below the leakage threshold
+  attempts: number;          // Generations it took, 1 for the first
+}
+
+export interface ChainQuery {
+  step: number;              // 1-based
+  query_text: string;
+  reveals: string;           // The part of the claim its answer supplies
+  leakage_score: number;
+  issues: string[];
+}
+
+/**
+ * Hints a question can give, in the order the hint ladder adds them
+ */
+export type HintType = 'time_window' | 'region' | 'org_type' | 'topic_area';
+
+/**
+ * One question about a claim asked at increasing specificity: no hints,
+ * then each hint added in turn (--hint-ladder)
+ */
+export interface HintLadder {
+  ladder_id: string;                         // e.g. "l1"; its variants are "l1.0", "l1.1", ...
+  claim_id: string;
+  hints: Partial<Record<HintType, string>>;  // What each hint gives away, e.g. { region: "East Asia" }
+  variants: Question[];                      // By hint_level; rungs without a hint value are skipped
+  hint_issues: string[];                     // Variants giving a hint above their level
+}
+
+// =============================================================================
+// Gold Claim Annotations (eval-claims)
+// =============================================================================
+
+/**
+ * A hand-annotated claim; claim_id defaults to g1..gn by position
+ */
+export interface GoldClaim {
+  claim_id?: string;
+  claim_text: string;
+  claim_type: ClaimType;
+  importance: number;
+}
+
+/**
+ * Gold annotation file: the claims a cable should yield
+ */
+export interface GoldAnnotations {
+  documents: Array<{
+    doc_id: string;
+    claims: GoldClaim[];
+  }>;
+}
+
+// =============================================================================
+// RAG Answers (grade)
+// =============================================================================
+
+/**
+ * One line of an answers file: a RAG system's answer to a generated
+ * question. doc_id is only needed when the question_id occurs in more
+ * than one cable.
+ */
+export interface RAGAnswer {
+  question_id: string;
+  doc_id?: string;
+  answer: string;
+  retrieved_doc_ids?: string[];
+}
+
 // =============================================================================
 // Cable Data (from CSV)
 // =============================================================================
@@ -99,6 +352,33 @@ export interface Cable {
 // LLM Response
 // =============================================================================
 
+/**
+ * Pipeline stages that make LLM calls (one per question style)
+ */
+export type LLMStage =
+  | 'claims'
+  | 'entities'
+  | 'verification'
+  | 'relations'
+  | 'targeted'
+  | 'contextual'
+  | 'thematic'
+  | 'multi_hop'
+  | 'validation'
+  | 'regeneration'
+  | 'coverage'
+  | 'chains'
+  | 'ladder'
+  | 'matching'
+  | 'grading';
+
+export interface StageCost {
+  tokens: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
 export interface LLMResponse {
   content: string;
   tokens: number;
@@ -119,6 +399,10 @@ export interface ClaimExtractionResult {
     entities: string[];
     time_bounds?: { start?: string; end?: string };
     importance: number;
+    source?: string | null;
+    modality?: string;
+    confidence_marker?: string | null;
+    supporting_quotes?: string[];
   }>;
 }
 
@@ -132,6 +416,101 @@ export interface QuestionGenerationResult {
     answer_type: string;
     allowed_hints: string[];
     banned_terms: string[];
+    sub_questions?: Array<{
+      claim_id: string;
+      question_text: string;
+      answer_type: string;
+    }>;
+  }>;
+}
+
+export interface ValidationResult {
+  question_id: string;
+  verdict: 'OK' | 'LEAK';
+  confidence: 'high' | 'medium' | 'low';
+  reason: string;
+}
+
+export interface BatchValidationResponse {
+  results: ValidationResult[];
+}
+
+export interface QuestionRewriteResult {
+  questions: Array<{
+    question_id: string;
+    question_text: string;
+    banned_terms?: string[];
+    sub_questions?: Array<{
+      question_id: string;
+      question_text: string;
+    }>;
+  }>;
+}
+
+export interface EntityResolutionResult {
+  entities: Array<{
+    mention: string;
+    canonical_name: string;
+    type: EntityType;
+    existing_id?: string | null;  // Registry entry the mention is an alias of
+  }>;
+}
+
+export interface ClaimVerificationResult {
+  claim_id: string;
+  verdict: SupportVerdict;
+  reason: string;
+}
+
+export interface BatchClaimVerificationResponse {
+  results: ClaimVerificationResult[];
+}
+
+export interface ClaimMatchResult {
+  matches: Array<{
+    gold_id: string;
+    claim_id: string;
+  }>;
+}
+
+export interface QueryChainResult {
+  chains: Array<{
+    claim_id: string;
+    queries: Array<{
+      query_text: string;
+      reveals: string;
+    }>;
+    banned_terms?: string[];
+  }>;
+}
+
+export interface HintLadderResult {
+  ladders: Array<{
+    claim_id: string;
+    hints: { region?: string; org_type?: string; topic_area?: string };
+    variants: Array<{
+      hint_level: number;
+      question_text: string;
+      answer_type: string;
+    }>;
+    banned_terms?: string[];
+  }>;
+}
+
+export interface AnswerJudgeResult {
+  grades: Array<{
+    question_id: string;
+    verdict: 'correct' | 'partial' | 'incorrect';
+    reason: string;
+  }>;
+}
+
+export interface ClaimRelationResult {
+  relations: Array<{
+    from: string;
+    to: string;
+    type: string;
+    reason?: string;
   }>;
 }
 